@@ -0,0 +1,33 @@
+"use server"
+
+import { redis } from "@/lib/redis"
+import { createApiKey, getApiKeyKey } from "@/lib/api-auth"
+
+export async function hasApiKey(uuid: string): Promise<boolean> {
+  try {
+    return (await redis.exists(getApiKeyKey(uuid))) > 0
+  } catch (error) {
+    console.error("Error checking API key:", error)
+    return false
+  }
+}
+
+// Replaces any existing key; the plaintext key is only returned here
+export async function generateApiKey(uuid: string): Promise<string | null> {
+  try {
+    return await createApiKey(uuid)
+  } catch (error) {
+    console.error("Error generating API key:", error)
+    return null
+  }
+}
+
+export async function revokeApiKey(uuid: string): Promise<boolean> {
+  try {
+    await redis.del(getApiKeyKey(uuid))
+    return true
+  } catch (error) {
+    console.error("Error revoking API key:", error)
+    return false
+  }
+}
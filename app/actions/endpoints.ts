@@ -0,0 +1,199 @@
+"use server"
+
+import { redis } from "@/lib/redis"
+import { v4 as uuidv4 } from "uuid"
+import { getEndpointKeys, getEndpointSlugKey } from "@/lib/enforce-retention"
+import { IDLE_TTL_SECONDS } from "@/lib/retention"
+import { removeJobs } from "@/lib/scheduler"
+
+export type Endpoint = {
+  id: string
+  name: string
+  color: string
+  createdAt: number
+  // Vanity alias, reachable at /api/webhook/{slug}
+  slug?: string
+}
+
+// Lowercase words separated by hyphens; ids are UUIDs so a slug can never shadow one
+const SLUG_PATTERN = /^[a-z0-9](?:[a-z0-9-]{1,46}[a-z0-9])$/
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function parseEndpoint(value: unknown) {
+  return (typeof value === "string" ? JSON.parse(value) : value) as Endpoint
+}
+
+// Claims expire with their endpoint, so a slug in the endpoint record may have lapsed and been taken since
+async function ownsSlug(endpointId: string, slug: string) {
+  return (await redis.get<string>(`slug:${slug}`)) === endpointId
+}
+
+async function releaseSlug(endpointId: string, slug: string) {
+  if (await ownsSlug(endpointId, slug)) {
+    await redis.del(`slug:${slug}`)
+  }
+}
+
+export async function getEndpoints(workspaceId: string): Promise<Endpoint[]> {
+  try {
+    const redisKey = `workspace:${workspaceId}:endpoints`
+    const endpoints = Object.values((await redis.hgetall<Record<string, unknown>>(redisKey)) ?? {}).map(parseEndpoint)
+    if (endpoints.length === 0) {
+      return []
+    }
+
+    // An endpoint idle past the TTL has had all its keys expired; drop it from the workspace too. A new
+    // endpoint has no keys until it is first used, so only endpoints older than the TTL are checked.
+    const idleCutoff = Date.now() - IDLE_TTL_SECONDS * 1000
+    const pipeline = redis.pipeline()
+    for (const endpoint of endpoints) {
+      pipeline.exists(...getEndpointKeys(endpoint.id))
+    }
+    const existing = await pipeline.exec<number[]>()
+    const expired = endpoints.filter((endpoint, i) => endpoint.createdAt < idleCutoff && existing[i] === 0)
+    if (expired.length > 0) {
+      await redis.hdel(redisKey, ...expired.map((endpoint) => endpoint.id))
+    }
+
+    return endpoints
+      .filter((endpoint) => !expired.includes(endpoint))
+      .sort((a, b) => a.createdAt - b.createdAt)
+  } catch (error) {
+    console.error("Error fetching endpoints:", error)
+    return []
+  }
+}
+
+export async function createEndpoint(
+  workspaceId: string,
+  data: { name: string; color: string; id?: string }
+): Promise<Endpoint | null> {
+  try {
+    const endpoint: Endpoint = {
+      // An existing id can be passed in to adopt an endpoint created before workspaces existed
+      id: data.id || uuidv4(),
+      name: data.name.trim() || "Untitled",
+      color: data.color,
+      createdAt: Date.now(),
+    }
+
+    const redisKey = `workspace:${workspaceId}:endpoints`
+    await redis.hset(redisKey, { [endpoint.id]: JSON.stringify(endpoint) })
+    return endpoint
+  } catch (error) {
+    console.error("Error creating endpoint:", error)
+    return null
+  }
+}
+
+export async function updateEndpoint(
+  workspaceId: string,
+  endpointId: string,
+  changes: Partial<Pick<Endpoint, "name" | "color">>
+): Promise<Endpoint | null> {
+  try {
+    const redisKey = `workspace:${workspaceId}:endpoints`
+    const existing = await redis.hget(redisKey, endpointId)
+    if (!existing) {
+      return null
+    }
+
+    const endpoint: Endpoint = { ...parseEndpoint(existing), ...changes }
+    if (!endpoint.name.trim()) {
+      endpoint.name = "Untitled"
+    }
+    await redis.hset(redisKey, { [endpointId]: JSON.stringify(endpoint) })
+    return endpoint
+  } catch (error) {
+    console.error("Error updating endpoint:", error)
+    return null
+  }
+}
+
+export async function setEndpointSlug(
+  workspaceId: string,
+  endpointId: string,
+  slug: string | null
+): Promise<{ endpoint?: Endpoint; error?: string }> {
+  try {
+    const redisKey = `workspace:${workspaceId}:endpoints`
+    const existing = await redis.hget(redisKey, endpointId)
+    if (!existing) {
+      return { error: "Endpoint not found" }
+    }
+
+    const endpoint = parseEndpoint(existing)
+    const nextSlug = slug?.trim().toLowerCase() || null
+    if (nextSlug === (endpoint.slug ?? null) && (!nextSlug || (await ownsSlug(endpointId, nextSlug)))) {
+      return { endpoint }
+    }
+
+    if (nextSlug) {
+      if (!SLUG_PATTERN.test(nextSlug) || UUID_PATTERN.test(nextSlug)) {
+        return { error: "Slugs are 3-48 lowercase letters, digits and hyphens" }
+      }
+
+      // NX makes the claim atomic, so two endpoints can never share a slug; touchEndpoint keeps it alive
+      const claimed = await redis.set(`slug:${nextSlug}`, endpointId, { nx: true, ex: IDLE_TTL_SECONDS })
+      if (!claimed) {
+        return { error: `"${nextSlug}" is already taken` }
+      }
+    }
+
+    if (endpoint.slug && endpoint.slug !== nextSlug) {
+      await releaseSlug(endpointId, endpoint.slug)
+    }
+    if (nextSlug) {
+      await redis.set(getEndpointSlugKey(endpointId), nextSlug, { ex: IDLE_TTL_SECONDS })
+    } else {
+      await redis.del(getEndpointSlugKey(endpointId))
+    }
+
+    const updated: Endpoint = { ...endpoint, slug: nextSlug ?? undefined }
+    await redis.hset(redisKey, { [endpointId]: JSON.stringify(updated) })
+    return { endpoint: updated }
+  } catch (error) {
+    console.error("Error setting endpoint slug:", error)
+    return { error: "Failed to update slug" }
+  }
+}
+
+// Map a path segment to an endpoint id; anything that is not a claimed slug is used as the id itself
+export async function resolveEndpointId(idOrSlug: string): Promise<string> {
+  if (UUID_PATTERN.test(idOrSlug)) {
+    return idOrSlug
+  }
+
+  try {
+    const endpointId = await redis.get<string>(`slug:${idOrSlug.toLowerCase()}`)
+    return endpointId || idOrSlug
+  } catch (error) {
+    console.error("Error resolving endpoint slug:", error)
+    return idOrSlug
+  }
+}
+
+export async function deleteEndpoint(workspaceId: string, endpointId: string): Promise<boolean> {
+  try {
+    const redisKey = `workspace:${workspaceId}:endpoints`
+    const existing = await redis.hget(redisKey, endpointId)
+    if (!existing) {
+      return false
+    }
+    await redis.hdel(redisKey, endpointId)
+
+    const { slug } = parseEndpoint(existing)
+    if (slug) {
+      await releaseSlug(endpointId, slug)
+    }
+
+    // Drop everything stored for the endpoint along with it
+    await removeJobs(endpointId)
+    await redis.del(...getEndpointKeys(endpointId))
+    await redis.zrem("webhook:index", endpointId)
+    return true
+  } catch (error) {
+    console.error("Error deleting endpoint:", error)
+    return false
+  }
+}
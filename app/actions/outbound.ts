@@ -0,0 +1,92 @@
+"use server"
+
+import { v4 as uuidv4 } from "uuid"
+import { redis } from "@/lib/redis"
+import { type ForwardResult } from "@/lib/forward"
+import { checkOutboundUrl, deliverRequest, type OutboundRequest } from "@/lib/outbound"
+import { type SignatureProvider } from "@/lib/signatures"
+import { touchEndpoint } from "@/lib/enforce-retention"
+
+// Most recent outbound requests kept per endpoint
+const MAX_SENDS = 50
+
+export type OutboundSend = {
+  id: string
+  timestamp: number
+  template?: string
+  signedWith?: SignatureProvider
+  request: {
+    method: string
+    url: string
+    headers: Record<string, string>
+    body: string | null
+  }
+  response: ForwardResult
+}
+
+export type OutboundResult = { send: OutboundSend | null; error?: string }
+
+function getSendsKey(uuid: string) {
+  return `webhook:${uuid}:sends`
+}
+
+function parseSend(value: unknown) {
+  return (typeof value === "string" ? JSON.parse(value) : value) as OutboundSend
+}
+
+export async function getSendHistory(uuid: string): Promise<OutboundSend[]> {
+  try {
+    const sends = await redis.lrange(getSendsKey(uuid), 0, MAX_SENDS - 1)
+    return sends.map(parseSend)
+  } catch (error) {
+    console.error("Error fetching send history:", error)
+    return []
+  }
+}
+
+export async function clearSendHistory(uuid: string): Promise<boolean> {
+  try {
+    await redis.del(getSendsKey(uuid))
+    return true
+  } catch (error) {
+    console.error("Error clearing send history:", error)
+    return false
+  }
+}
+
+// Sign and send a composed request from the server, then log it with the response
+export async function sendOutboundRequest(uuid: string, request: OutboundRequest): Promise<OutboundResult> {
+  const urlError = checkOutboundUrl(request.url)
+  if (urlError) {
+    return { send: null, error: urlError }
+  }
+
+  try {
+    let delivery: Awaited<ReturnType<typeof deliverRequest>>
+    try {
+      delivery = await deliverRequest(request)
+    } catch (error) {
+      return { send: null, error: error instanceof Error ? error.message : "Failed to sign request" }
+    }
+
+    const { response, signedWith, ...sent } = delivery
+    const send: OutboundSend = {
+      id: uuidv4(),
+      timestamp: Date.now(),
+      template: request.template,
+      signedWith,
+      request: { ...sent, url: response.url },
+      response,
+    }
+
+    const key = getSendsKey(uuid)
+    await redis.lpush(key, JSON.stringify(send))
+    await redis.ltrim(key, 0, MAX_SENDS - 1)
+    await touchEndpoint(uuid)
+
+    return { send }
+  } catch (error) {
+    console.error("Error sending outbound request:", error)
+    return { send: null, error: "Failed to send request" }
+  }
+}
@@ -0,0 +1,109 @@
+"use server"
+
+import { redis } from "@/lib/redis"
+import { serializeBody, type ForwardResult } from "@/lib/forward"
+import { forwardWebhook } from "@/lib/upstream"
+import { decodeRawBody, type BodyEncoding } from "@/lib/body"
+import { v4 as uuidv4 } from "uuid"
+import { getWebhookEvent } from "@/app/actions/webhook"
+
+// Keep the most recent attempts per event so they can be compared side by side
+const MAX_REPLAYS_PER_EVENT = 20
+
+export type ReplayOptions = {
+  url: string
+  headers?: Record<string, string>
+  body?: string | null
+}
+
+export type ReplayAttempt = {
+  id: string
+  eventId: string
+  timestamp: number
+  request: {
+    method: string
+    url: string
+    headers: Record<string, string>
+    body: string | null
+    bodyEncoding: BodyEncoding
+  }
+  response: ForwardResult
+}
+
+function parseReplays(value: unknown): ReplayAttempt[] {
+  if (!value) return []
+  return (typeof value === "string" ? JSON.parse(value) : value) as ReplayAttempt[]
+}
+
+export async function getReplayHistory(uuid: string, eventId: string): Promise<ReplayAttempt[]> {
+  try {
+    const replays = await redis.hget(`webhook:${uuid}:replays`, eventId)
+    return parseReplays(replays)
+  } catch (error) {
+    console.error("Error fetching replay history:", error)
+    return []
+  }
+}
+
+export async function replayWebhookEvent(
+  uuid: string,
+  eventId: string,
+  options: ReplayOptions
+): Promise<ReplayAttempt | null> {
+  try {
+    const event = await getWebhookEvent(uuid, eventId)
+    if (!event) {
+      return null
+    }
+
+    const headers = options.headers ?? (event.headers as Record<string, string>)
+    const contentType = String(event.headers["content-type"] || "")
+
+    // Send the original bytes unless the body was edited
+    let body: string | null
+    let bodyEncoding: BodyEncoding = "utf8"
+    let rawBody: Uint8Array<ArrayBuffer> | string | null
+    if (options.body !== undefined) {
+      body = rawBody = options.body
+    } else if (event.rawBody) {
+      body = event.rawBody
+      bodyEncoding = event.bodyEncoding ?? "utf8"
+      rawBody = decodeRawBody(event.rawBody, bodyEncoding)
+    } else {
+      body = rawBody = serializeBody(event.body, contentType)
+    }
+
+    const response = await forwardWebhook(options.url, {
+      method: event.method,
+      headers,
+      query: event.query as Record<string, string>,
+      rawBody,
+    })
+
+    const attempt: ReplayAttempt = {
+      id: uuidv4(),
+      eventId,
+      timestamp: Date.now(),
+      request: {
+        method: event.method,
+        url: response.url,
+        headers,
+        body,
+        bodyEncoding,
+      },
+      response,
+    }
+
+    // Store newest first alongside the other attempts for this event
+    const redisKey = `webhook:${uuid}:replays`
+    const history = parseReplays(await redis.hget(redisKey, eventId))
+    await redis.hset(redisKey, {
+      [eventId]: JSON.stringify([attempt, ...history].slice(0, MAX_REPLAYS_PER_EVENT)),
+    })
+
+    return attempt
+  } catch (error) {
+    console.error("Error replaying webhook event:", error)
+    return null
+  }
+}
@@ -0,0 +1,52 @@
+"use server"
+
+import { v4 as uuidv4 } from "uuid"
+import { redis } from "@/lib/redis"
+import { touchEndpoint } from "@/lib/enforce-retention"
+
+export type SavedSearch = {
+  id: string
+  name: string
+  // Inbox query, e.g. "method:POST header:x-github-event=push"
+  query: string
+  createdAt: number
+}
+
+function parseSavedSearch(value: unknown) {
+  return (typeof value === "string" ? JSON.parse(value) : value) as SavedSearch
+}
+
+export async function getSavedSearches(uuid: string): Promise<SavedSearch[]> {
+  try {
+    const searches = await redis.hgetall<Record<string, unknown>>(`webhook:${uuid}:searches`)
+    return Object.values(searches ?? {})
+      .map(parseSavedSearch)
+      .sort((a, b) => a.createdAt - b.createdAt)
+  } catch (error) {
+    console.error("Error fetching saved searches:", error)
+    return []
+  }
+}
+
+export async function saveSearch(uuid: string, name: string, query: string): Promise<SavedSearch | null> {
+  try {
+    const search: SavedSearch = { id: uuidv4(), name: name.trim(), query: query.trim(), createdAt: Date.now() }
+    await redis.hset(`webhook:${uuid}:searches`, { [search.id]: JSON.stringify(search) })
+    // Give the new key the endpoint's idle expiry
+    await touchEndpoint(uuid)
+    return search
+  } catch (error) {
+    console.error("Error saving search:", error)
+    return null
+  }
+}
+
+export async function deleteSavedSearch(uuid: string, id: string): Promise<boolean> {
+  try {
+    await redis.hdel(`webhook:${uuid}:searches`, id)
+    return true
+  } catch (error) {
+    console.error("Error deleting saved search:", error)
+    return false
+  }
+}
@@ -0,0 +1,110 @@
+"use server"
+
+import { checkCron } from "@/lib/cron"
+import { checkOutboundUrl, type OutboundRequest } from "@/lib/outbound"
+import {
+  createJob,
+  getJob,
+  getJobRuns,
+  getJobs,
+  getNextRunAt,
+  removeJob,
+  runJob,
+  saveJob,
+  type JobRun,
+  type JobSchedule,
+  type ScheduledJob,
+} from "@/lib/scheduler"
+import { touchEndpoint } from "@/lib/enforce-retention"
+
+export async function getScheduledJobs(uuid: string): Promise<ScheduledJob[]> {
+  try {
+    return await getJobs(uuid)
+  } catch (error) {
+    console.error("Error fetching scheduled jobs:", error)
+    return []
+  }
+}
+
+export async function getScheduledJobRuns(uuid: string, jobId: string): Promise<JobRun[]> {
+  try {
+    return await getJobRuns(uuid, jobId)
+  } catch (error) {
+    console.error("Error fetching job runs:", error)
+    return []
+  }
+}
+
+export async function createScheduledJob(
+  uuid: string,
+  name: string,
+  request: OutboundRequest,
+  schedule: JobSchedule
+): Promise<{ job: ScheduledJob | null; error?: string }> {
+  const urlError = checkOutboundUrl(request.url)
+  if (urlError) {
+    return { job: null, error: urlError }
+  }
+  if (schedule.type === "cron") {
+    const cronError = checkCron(schedule.expression)
+    if (cronError) return { job: null, error: cronError }
+  } else if (!Number.isFinite(schedule.runAt) || schedule.runAt <= Date.now()) {
+    return { job: null, error: "Pick a time in the future" }
+  }
+
+  try {
+    const job = createJob(name.trim() || `${request.method} ${request.url}`, request, schedule)
+    if (job.nextRunAt === null) {
+      return { job: null, error: "The cron expression never matches a date" }
+    }
+    await saveJob(uuid, job)
+    // Give the new keys the endpoint's idle expiry
+    await touchEndpoint(uuid)
+    return { job }
+  } catch (error) {
+    console.error("Error creating scheduled job:", error)
+    return { job: null, error: "Failed to create schedule" }
+  }
+}
+
+// Paused jobs leave the due set; resuming picks the next time from now, skipping missed runs
+export async function setScheduledJobPaused(uuid: string, jobId: string, paused: boolean): Promise<ScheduledJob | null> {
+  try {
+    const job = await getJob(uuid, jobId)
+    if (!job) return null
+
+    const updated: ScheduledJob = {
+      ...job,
+      paused,
+      // A one-off job that already fired stays finished
+      nextRunAt: paused || job.nextRunAt === null ? job.nextRunAt : getNextRunAt(job.schedule, Date.now()),
+    }
+    await saveJob(uuid, updated)
+    return updated
+  } catch (error) {
+    console.error("Error updating scheduled job:", error)
+    return null
+  }
+}
+
+export async function runScheduledJob(uuid: string, jobId: string): Promise<{ job: ScheduledJob; run: JobRun } | null> {
+  try {
+    const job = await getJob(uuid, jobId)
+    if (!job) return null
+    const result = await runJob(uuid, job, { manual: true })
+    return result.job ? { job: result.job, run: result.run } : null
+  } catch (error) {
+    console.error("Error running scheduled job:", error)
+    return null
+  }
+}
+
+export async function deleteScheduledJob(uuid: string, jobId: string): Promise<boolean> {
+  try {
+    await removeJob(uuid, jobId)
+    return true
+  } catch (error) {
+    console.error("Error deleting scheduled job:", error)
+    return false
+  }
+}
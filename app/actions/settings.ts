@@ -1,17 +1,44 @@
 "use server"
 
 import { redis } from "@/lib/redis"
+import { type SigningSecrets } from "@/lib/signatures"
+import { type ResponseRule } from "@/lib/rules"
+import { normalizeSimulation, type ResponseSimulation } from "@/lib/simulation"
+import { type RetentionSettings } from "@/lib/retention"
+import { type SchemaValidationSettings } from "@/lib/schema-validation"
+import { enforceRetention, touchEndpoint } from "@/lib/enforce-retention"
 
 export type WebhookSettings = {
   responseStatus: number
   responseBody: string
   responseHeaders: Record<string, string>
+  // Checked in order before falling back to the response above
+  responseRules?: ResponseRule[]
+  // Relay every captured request to this URL (e.g. a local tunnel or staging service)
+  forwardUrl?: string
+  // Reply to the sender with the upstream response instead of the configured one
+  forwardResponse?: boolean
+  // Per-provider secrets used to verify incoming signatures
+  signingSecrets?: SigningSecrets
+  // Delays, timeouts and failures injected to exercise sender retries
+  simulation?: ResponseSimulation
+  // History limits; the last 50 events are kept when unset
+  retention?: RetentionSettings
+  // JSON Schema every incoming body is checked against
+  validation?: SchemaValidationSettings
 }
 
 export async function saveWebhookSettings(uuid: string, settings: WebhookSettings) {
   try {
     const redisKey = `webhook:${uuid}:settings`
-    await redis.set(redisKey, JSON.stringify(settings))
+    // Delays past the hang limit would outlast the function, so store them clamped
+    const stored = settings.simulation ? { ...settings, simulation: normalizeSimulation(settings.simulation) } : settings
+    await redis.set(redisKey, JSON.stringify(stored))
+    // Restart the "fail N times" sequence whenever the settings change
+    await redis.del(`webhook:${uuid}:attempts`)
+    // Apply tightened limits right away rather than on the next webhook
+    await enforceRetention(uuid, settings.retention, { measure: true })
+    await touchEndpoint(uuid)
     return true
   } catch (error) {
     console.error("Error saving settings:", error)
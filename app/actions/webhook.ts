@@ -1,58 +1,194 @@
 "use server"
 
+import { headers as getRequestHeaders } from "next/headers"
+import { v4 as uuidv4 } from "uuid"
 import { redis } from "@/lib/redis"
+import { realtime } from "@/lib/realtime"
+import { type ForwardResult } from "@/lib/forward"
+import { captureBody, decodeRawBody, type BodyEncoding } from "@/lib/body"
+import { type MultipartPart } from "@/lib/multipart"
+import { type SignatureVerification } from "@/lib/signatures"
+import { type SchemaValidation } from "@/lib/schema-validation"
+import { type InjectedFault } from "@/lib/simulation"
+import { MAX_EVENTS_LIMIT, normalizeRetention, type RetentionStatus } from "@/lib/retention"
+import { enforceRetention, getEventBytesKey, touchEndpoint } from "@/lib/enforce-retention"
+import {
+  getEventDataKey,
+  getEventIndexKey,
+  loadEvent,
+  loadEvents,
+  migrateLegacyEvents,
+  removeEvents,
+  saveEvent,
+} from "@/lib/event-store"
+import { type ImportedEvent } from "@/lib/export-formats"
+import { getWebhookSettings } from "@/app/actions/settings"
+import { createEventMatcher, type EventFilter } from "@/lib/event-filter"
 
 export type WebhookEvent = {
   id: string
   uuid: string
   method: string
   url: string
+  // Sub-path after the endpoint id, e.g. "/stripe/events"
+  path?: string
   headers: Record<string, unknown>
   body: any
+  // Exact request bytes, UTF-8 text or base64 depending on bodyEncoding
+  rawBody?: string | null
+  bodyEncoding?: BodyEncoding
+  bodySize?: number
+  parts?: MultipartPart[]
   query: Record<string, unknown>
   timestamp: number
+  forward?: ForwardResult
+  signature?: SignatureVerification
+  // Result of checking the body against the endpoint's JSON Schema
+  validation?: SchemaValidation
+  // What the sender got back, and which response rule produced it
+  response?: {
+    status: number
+    rule?: string
+    injected?: InjectedFault
+    delay?: number
+    // Templated response headers left out because the rendered name or value was not valid in a header
+    droppedHeaders?: string[]
+  }
+  starred?: boolean
+  // Free-form annotation added from the inspector
+  note?: string
+}
+
+export type EventPageOptions = {
+  // Opaque cursor returned by the previous page
+  cursor?: string | null
+  limit?: number
+  filter?: EventFilter
+}
+
+export type WebhookEventPage = {
+  events: WebhookEvent[]
+  nextCursor: string | null
+}
+
+const DEFAULT_PAGE_SIZE = 25
+const MAX_PAGE_SIZE = 100
+// Upper bound on events examined per call, so sparse filters still return promptly
+const MAX_SCANNED_PER_PAGE = 500
+
+// Cursors are "{score}:{skip}", where skip counts events already returned at that exact timestamp
+function parseCursor(cursor: string | null | undefined) {
+  const [score, skip] = (cursor ?? "").split(":")
+  const parsedScore = Number(score)
+  return Number.isFinite(parsedScore) && cursor
+    ? { score: parsedScore, skip: parseInt(skip) || 0 }
+    : null
 }
 
-export async function getWebhookEvents(uuid: string): Promise<WebhookEvent[]> {
+export async function getWebhookEvents(uuid: string, options: EventPageOptions = {}): Promise<WebhookEventPage> {
   try {
-    const redisKey = `webhook:${uuid}:events`
-    
-    // Get all events from sorted set (most recent first)
-    const events = await redis.zrange(redisKey, 0, -1, {
-      rev: true,
-    })
-
-    // Upstash Redis client automatically deserializes JSON, so events are already objects
-    // If an event is a string, parse it; otherwise, use it as-is
-    return events.map((event) => {
-      if (typeof event === "string") {
-        return JSON.parse(event) as WebhookEvent
+    const indexKey = getEventIndexKey(uuid)
+    const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, options.limit ?? DEFAULT_PAGE_SIZE))
+    const filter = options.filter ?? {}
+    const matches = createEventMatcher(filter)
+    const min = filter.from ?? "-inf"
+
+    const start = parseCursor(options.cursor)
+    if (!start) {
+      // Bring endpoints from before events were stored by id up to date on first load
+      await migrateLegacyEvents(uuid)
+    }
+
+    let max: number | "+inf" = start?.score ?? filter.to ?? "+inf"
+    let skip = start?.skip ?? 0
+    if (filter.to !== undefined && typeof max === "number" && max > filter.to) {
+      max = filter.to
+      skip = 0
+    }
+
+    const events: WebhookEvent[] = []
+    let scanned = 0
+
+    // Walk newest to oldest by score, keeping only events that pass the filter
+    while (events.length < limit && scanned < MAX_SCANNED_PER_PAGE) {
+      const count = Math.min(limit * 2, MAX_SCANNED_PER_PAGE - scanned)
+      const entries = await redis.zrange<(string | number)[]>(indexKey, max, min, {
+        byScore: true,
+        rev: true,
+        withScores: true,
+        offset: skip,
+        count,
+      })
+
+      const ids: string[] = []
+      const scores: number[] = []
+      for (let i = 0; i < entries.length; i += 2) {
+        ids.push(String(entries[i]))
+        scores.push(Number(entries[i + 1]))
       }
-      return event as WebhookEvent
-    })
+      const batch = new Map((await loadEvents(uuid, ids)).map((event) => [event.id, event]))
+
+      let consumed = 0
+      for (const [index, id] of ids.entries()) {
+        consumed++
+        scanned++
+        const event = batch.get(id)
+        if (event && matches(event)) {
+          events.push(event)
+        }
+
+        // Advance the cursor past this event
+        skip = scores[index] === max ? skip + 1 : 1
+        max = scores[index]
+
+        if (events.length === limit) break
+      }
+
+      // A short batch that was read to the end means there is nothing older
+      if (ids.length < count && consumed === ids.length) {
+        return { events, nextCursor: null }
+      }
+    }
+
+    return { events, nextCursor: `${max}:${skip}` }
   } catch (error) {
     console.error("Error fetching webhook events:", error)
-    return []
+    return { events: [], nextCursor: null }
   }
 }
 
-export async function deleteWebhookEvent(uuid: string, eventId: string): Promise<boolean> {
+export async function getWebhookEvent(uuid: string, eventId: string): Promise<WebhookEvent | null> {
   try {
-    const redisKey = `webhook:${uuid}:events`
-    
-    // Get all events to find the one to delete
-    const events = await redis.zrange(redisKey, 0, -1)
-    
-    for (const event of events) {
-      const parsedEvent = typeof event === "string" ? JSON.parse(event) : event
-      if (parsedEvent.id === eventId) {
-        const member = typeof event === "string" ? event : JSON.stringify(event)
-        await redis.zrem(redisKey, member)
-        return true
-      }
+    return await loadEvent(uuid, eventId)
+  } catch (error) {
+    console.error("Error fetching webhook event:", error)
+    return null
+  }
+}
+
+export async function updateWebhookEvent(
+  uuid: string,
+  eventId: string,
+  changes: Pick<WebhookEvent, "starred" | "note">
+): Promise<WebhookEvent | null> {
+  try {
+    const event = await loadEvent(uuid, eventId)
+    if (!event) {
+      return null
     }
-    
-    return false
+
+    const updated: WebhookEvent = { ...event, ...changes }
+    await redis.hset(getEventDataKey(uuid), { [eventId]: JSON.stringify(updated) })
+    return updated
+  } catch (error) {
+    console.error("Error updating webhook event:", error)
+    return null
+  }
+}
+
+export async function deleteWebhookEvent(uuid: string, eventId: string): Promise<boolean> {
+  try {
+    return (await removeEvents(uuid, [eventId])) > 0
   } catch (error) {
     console.error("Error deleting webhook event:", error)
     return false
@@ -61,8 +197,7 @@ export async function deleteWebhookEvent(uuid: string, eventId: string): Promise
 
 export async function deleteAllWebhookEvents(uuid: string): Promise<boolean> {
   try {
-    const redisKey = `webhook:${uuid}:events`
-    await redis.del(redisKey)
+    await redis.del(getEventIndexKey(uuid), getEventDataKey(uuid), getEventBytesKey(uuid), `webhook:${uuid}:replays`)
     return true
   } catch (error) {
     console.error("Error deleting all webhook events:", error)
@@ -70,3 +205,100 @@ export async function deleteAllWebhookEvents(uuid: string): Promise<boolean> {
   }
 }
 
+export async function getRetentionStatus(uuid: string): Promise<RetentionStatus | null> {
+  try {
+    const indexKey = getEventIndexKey(uuid)
+    const [count, oldest, bytes, ttl, settings] = await Promise.all([
+      redis.zcard(indexKey),
+      redis.zrange<(string | number)[]>(indexKey, 0, 0, { withScores: true }),
+      redis.get<number>(getEventBytesKey(uuid)),
+      redis.ttl(indexKey),
+      getWebhookSettings(uuid),
+    ])
+    const retention = normalizeRetention(settings?.retention)
+    const oldestTimestamp = oldest.length > 0 ? Number(oldest[1]) : null
+
+    return {
+      count,
+      bytes: bytes === null ? null : Number(bytes),
+      oldestTimestamp,
+      oldestExpiresAt: oldestTimestamp !== null && retention.maxAgeHours > 0
+        ? oldestTimestamp + retention.maxAgeHours * 60 * 60 * 1000
+        : null,
+      idleExpiresAt: ttl > 0 ? Date.now() + ttl * 1000 : null,
+      retention,
+    }
+  } catch (error) {
+    console.error("Error fetching retention status:", error)
+    return null
+  }
+}
+
+// Every event matching the filter, newest first, for bulk export
+export async function exportWebhookEvents(uuid: string, filter: EventFilter = {}): Promise<WebhookEvent[]> {
+  const events: WebhookEvent[] = []
+  let cursor: string | null = null
+  do {
+    const page: WebhookEventPage = await getWebhookEvents(uuid, { cursor, limit: MAX_PAGE_SIZE, filter })
+    events.push(...page.events)
+    cursor = page.nextCursor
+  } while (cursor && events.length < MAX_EVENTS_LIMIT)
+  return events
+}
+
+// Store requests from an exported file as new events of this endpoint, keeping their timestamps
+// Events are written one by one, so a failure part-way reports how many were stored before it
+export async function importWebhookEvents(
+  uuid: string,
+  imported: ImportedEvent[]
+): Promise<{ imported: number; error?: string }> {
+  let count = 0
+  try {
+    const requestHeaders = await getRequestHeaders()
+    const origin = `${requestHeaders.get("x-forwarded-proto") ?? "http"}://${requestHeaders.get("host")}`
+
+    for (const item of imported.slice(0, MAX_EVENTS_LIMIT)) {
+      const source = new URL(item.url, origin)
+      // Fixtures captured by another endpoint keep their sub-path but move to this one
+      const path = item.path ?? source.pathname.match(/^\/api\/webhook\/[^/]+(\/.*)$/)?.[1]
+      const url = new URL(`/api/webhook/${uuid}${path ?? ""}${source.search}`, origin)
+
+      const contentType = Object.entries(item.headers).find(([key]) => key.toLowerCase() === "content-type")?.[1] ?? ""
+      const bytes = item.rawBody ? decodeRawBody(item.rawBody, item.bodyEncoding) : new Uint8Array()
+
+      await saveEvent({
+        id: uuidv4(),
+        uuid,
+        method: item.method.toUpperCase(),
+        url: url.toString(),
+        ...(path && { path }),
+        headers: item.headers,
+        ...captureBody(bytes, contentType),
+        query: Object.fromEntries(source.searchParams),
+        timestamp: Number.isFinite(item.timestamp) ? item.timestamp : Date.now(),
+        ...(item.note && { note: item.note }),
+        ...(item.starred && { starred: true }),
+      })
+      count++
+    }
+
+    await enforceRetention(uuid, (await getWebhookSettings(uuid))?.retention, { measure: true })
+    await touchEndpoint(uuid)
+    await notifyImported(uuid, count)
+    return { imported: count }
+  } catch (error) {
+    console.error("Error importing webhook events:", error)
+    await notifyImported(uuid, count)
+    return { imported: count, error: error instanceof Error ? error.message : "Import failed" }
+  }
+}
+
+// Open inboxes reload once; emitting each imported event would show old requests as just received
+async function notifyImported(uuid: string, count: number) {
+  if (count === 0) return
+  try {
+    await realtime.channel(`webhook:${uuid}`).emit("webhook.imported", { uuid, count })
+  } catch (error) {
+    console.error("Error announcing imported webhook events:", error)
+  }
+}
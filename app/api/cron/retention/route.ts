@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from "next/server"
+import { sweepRetention } from "@/lib/enforce-retention"
+import { authorizeCronRequest } from "@/lib/cron-auth"
+import { getWebhookSettings } from "@/app/actions/settings"
+
+// Applies age limits to endpoints that have stopped receiving webhooks; schedule it with a cron job
+export async function GET(request: NextRequest) {
+  const unauthorized = authorizeCronRequest(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    const result = await sweepRetention(async (uuid) => (await getWebhookSettings(uuid))?.retention)
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error("Error sweeping retention:", error)
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from "next/server"
+import { runDueJobs } from "@/lib/scheduler"
+import { authorizeCronRequest } from "@/lib/cron-auth"
+
+// Sends scheduled and recurring requests that are due; schedule it with a cron job every minute
+export async function GET(request: NextRequest) {
+  const unauthorized = authorizeCronRequest(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  try {
+    const result = await runDueJobs()
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    console.error("Error running scheduled jobs:", error)
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateApiRequest } from "@/lib/api-auth"
+import { deleteWebhookEvent, getWebhookEvent } from "@/app/actions/webhook"
+import { resolveEndpointId } from "@/app/actions/endpoints"
+
+type RouteContext = {
+  params: Promise<{ id: string; eventId: string }>
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const { id, eventId } = await context.params
+  const uuid = await resolveEndpointId(id)
+  const unauthorized = await authenticateApiRequest(request, uuid)
+  if (unauthorized) return unauthorized
+
+  const event = await getWebhookEvent(uuid, eventId)
+  if (!event) {
+    return NextResponse.json({ success: false, error: "Event not found" }, { status: 404 })
+  }
+  return NextResponse.json({ success: true, event })
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const { id, eventId } = await context.params
+  const uuid = await resolveEndpointId(id)
+  const unauthorized = await authenticateApiRequest(request, uuid)
+  if (unauthorized) return unauthorized
+
+  if (!(await deleteWebhookEvent(uuid, eventId))) {
+    return NextResponse.json({ success: false, error: "Event not found" }, { status: 404 })
+  }
+  return NextResponse.json({ success: true })
+}
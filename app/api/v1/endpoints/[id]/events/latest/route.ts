@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateApiRequest } from "@/lib/api-auth"
+import { parseEventFilter } from "@/lib/event-filter"
+import { getWebhookEvents } from "@/app/actions/webhook"
+import { resolveEndpointId } from "@/app/actions/endpoints"
+
+type RouteContext = {
+  params: Promise<{ id: string }>
+}
+
+// The most recent event matching the same filters as the list route
+export async function GET(request: NextRequest, context: RouteContext) {
+  const uuid = await resolveEndpointId((await context.params).id)
+  const unauthorized = await authenticateApiRequest(request, uuid)
+  if (unauthorized) return unauthorized
+
+  const filter = parseEventFilter(request.nextUrl.searchParams)
+  let page = await getWebhookEvents(uuid, { limit: 1, filter })
+  // Sparse filters can return an empty page with more history still to scan
+  while (page.events.length === 0 && page.nextCursor) {
+    page = await getWebhookEvents(uuid, { cursor: page.nextCursor, limit: 1, filter })
+  }
+
+  const [event] = page.events
+  if (!event) {
+    return NextResponse.json({ success: false, error: "No matching events" }, { status: 404 })
+  }
+  return NextResponse.json({ success: true, event })
+}
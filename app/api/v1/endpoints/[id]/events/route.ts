@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server"
+import { authenticateApiRequest } from "@/lib/api-auth"
+import { parseEventFilter } from "@/lib/event-filter"
+import { deleteAllWebhookEvents, getWebhookEvents } from "@/app/actions/webhook"
+import { resolveEndpointId } from "@/app/actions/endpoints"
+
+type RouteContext = {
+  params: Promise<{ id: string }>
+}
+
+// List events newest first; pass nextCursor back as ?cursor= to fetch the next page
+export async function GET(request: NextRequest, context: RouteContext) {
+  const uuid = await resolveEndpointId((await context.params).id)
+  const unauthorized = await authenticateApiRequest(request, uuid)
+  if (unauthorized) return unauthorized
+
+  const params = request.nextUrl.searchParams
+  const page = await getWebhookEvents(uuid, {
+    cursor: params.get("cursor"),
+    limit: parseInt(params.get("limit") ?? "") || undefined,
+    filter: parseEventFilter(params),
+  })
+
+  return NextResponse.json({ success: true, ...page })
+}
+
+export async function DELETE(request: NextRequest, context: RouteContext) {
+  const uuid = await resolveEndpointId((await context.params).id)
+  const unauthorized = await authenticateApiRequest(request, uuid)
+  if (unauthorized) return unauthorized
+
+  if (!(await deleteAllWebhookEvents(uuid))) {
+    return NextResponse.json({ success: false, error: "Internal server error" }, { status: 500 })
+  }
+  return NextResponse.json({ success: true })
+}
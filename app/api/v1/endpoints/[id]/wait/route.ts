@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server"
+import { realtime } from "@/lib/realtime"
+import { authenticateApiRequest } from "@/lib/api-auth"
+import { createEventMatcher, parseEventFilter, parseTime } from "@/lib/event-filter"
+import { getWebhookEvents, type WebhookEvent } from "@/app/actions/webhook"
+import { resolveEndpointId } from "@/app/actions/endpoints"
+
+const DEFAULT_WAIT_SECONDS = 30
+const MAX_WAIT_SECONDS = 60
+const HISTORY_PAGE_SIZE = 100
+
+export const maxDuration = 70
+
+type RouteContext = {
+  params: Promise<{ id: string }>
+}
+
+// channel.on() resolves to the underlying Redis subscriber, although it is typed as void
+type Subscription = { unsubscribe: () => Promise<void> }
+
+// Block until a webhook matching the filter arrives, e.g. ?method=POST&match=$.type=invoice.paid&timeout=30.
+// Pass ?since= (ISO date or epoch ms) to also accept events that arrived before the request was made.
+export async function GET(request: NextRequest, context: RouteContext) {
+  const uuid = await resolveEndpointId((await context.params).id)
+  const unauthorized = await authenticateApiRequest(request, uuid)
+  if (unauthorized) return unauthorized
+
+  const params = request.nextUrl.searchParams
+  const filter = parseEventFilter(params)
+  const matches = createEventMatcher(filter)
+  const since = parseTime(params.get("since")) ?? Date.now()
+  const timeout = Math.min(MAX_WAIT_SECONDS, Math.max(1, Number(params.get("timeout")) || DEFAULT_WAIT_SECONDS))
+
+  let settle: (event: WebhookEvent | null) => void = () => {}
+  const result = new Promise<WebhookEvent | null>((resolve) => {
+    settle = resolve
+  })
+
+  // Subscribe first so nothing emitted while the history is checked is missed
+  const subscription = (await realtime.channel(`webhook:${uuid}`).on("webhook.received", (event) => {
+    if (event.timestamp >= since && matches(event)) {
+      settle(event)
+    }
+  })) as unknown as Subscription
+
+  const timer = setTimeout(() => settle(null), timeout * 1000)
+  request.signal.addEventListener("abort", () => settle(null))
+
+  try {
+    // A match stored before the subscription was ready wins; pages run newest first, so read through to
+    // the oldest match rather than stopping at the first page
+    const storedFilter = { ...filter, from: Math.max(since, filter.from ?? 0) }
+    let stored: WebhookEvent | undefined
+    let cursor: string | null = null
+    do {
+      const page = await getWebhookEvents(uuid, { cursor, limit: HISTORY_PAGE_SIZE, filter: storedFilter })
+      stored = page.events.at(-1) ?? stored
+      cursor = page.nextCursor
+    } while (cursor)
+    if (stored) {
+      settle(stored)
+    }
+
+    const event = await result
+    if (!event) {
+      return NextResponse.json(
+        { success: false, error: `No matching webhook within ${timeout}s` },
+        { status: 408 }
+      )
+    }
+    return NextResponse.json({ success: true, event })
+  } finally {
+    clearTimeout(timer)
+    await subscription.unsubscribe().catch((error) => console.error("Error unsubscribing:", error))
+  }
+}
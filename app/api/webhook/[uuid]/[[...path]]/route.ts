@@ -0,0 +1,244 @@
+import { NextRequest, NextResponse } from "next/server"
+import { redis } from "@/lib/redis"
+import { realtime } from "@/lib/realtime"
+import { v4 as uuidv4 } from "uuid"
+import { getWebhookSettings } from "@/app/actions/settings"
+import { stripHopByHopHeaders } from "@/lib/forward"
+import { forwardWebhook } from "@/lib/upstream"
+import { captureBody, decodeRawBody } from "@/lib/body"
+import { verifySignature } from "@/lib/signature-verifier"
+import { validatePayload } from "@/lib/schema-validation"
+import { findMatchingRule } from "@/lib/rules"
+import { renderHeaders, renderTemplate, type TemplateContext } from "@/lib/template"
+import {
+  MAX_HANG_MS,
+  getHoldMs,
+  getSimulatedDelay,
+  isSimulationActive,
+  shouldInjectFailure,
+  sleep,
+  type InjectedFault,
+} from "@/lib/simulation"
+import { type WebhookEvent } from "@/app/actions/webhook"
+import { resolveEndpointId } from "@/app/actions/endpoints"
+import { enforceRetention, touchEndpoint } from "@/lib/enforce-retention"
+import { saveEvent } from "@/lib/event-store"
+
+// Seconds, as a literal for Next; the plan must allow it (see SETUP_GUIDE.md). Simulated holds are cut
+// short to what is left of it after forwarding, so the response still goes out in time
+export const maxDuration = 300
+
+type RouteContext = {
+  params: Promise<{ uuid: string; path?: string[] }>
+}
+
+async function handleWebhook(request: NextRequest, context: RouteContext) {
+  const startedAt = Date.now()
+  try {
+    const params = await context.params
+    // The first segment is either the endpoint id or one of its vanity slugs
+    const uuid = await resolveEndpointId(params.uuid)
+    // Anything after it lets one endpoint mock several routes
+    const subPath = params.path?.length ? `/${params.path.join("/")}` : undefined
+
+    // Extract request data
+    const method = request.method
+    const headers: Record<string, string> = {}
+    request.headers.forEach((value, key) => {
+      headers[key] = value
+    })
+
+    // Parse query params
+    const url = new URL(request.url)
+    const query: Record<string, string> = {}
+    url.searchParams.forEach((value, key) => {
+      query[key] = value
+    })
+
+    // Read the exact bytes once so they can be stored, parsed and relayed
+    const rawBytes = new Uint8Array(await request.arrayBuffer().catch(() => new ArrayBuffer(0)))
+
+    // Parse body
+    const contentType = request.headers.get("content-type") || ""
+    const captured = captureBody(rawBytes, contentType)
+
+    const timestamp = Date.now()
+    const eventId = uuidv4()
+
+    // Get custom settings for this webhook
+    const settings = await getWebhookSettings(uuid)
+
+    const webhookEvent: WebhookEvent = {
+      id: eventId,
+      uuid,
+      method,
+      url: request.url,
+      ...(subPath && { path: subPath }),
+      headers,
+      ...captured,
+      query,
+      timestamp,
+    }
+
+    // Check provider signatures against the exact bytes that were received
+    const signature = verifySignature(
+      { url: request.url, headers, rawBody: rawBytes, contentType, receivedAt: timestamp },
+      settings?.signingSecrets
+    )
+    if (signature) {
+      webhookEvent.signature = signature
+    }
+
+    // Contract-test the sender against the endpoint's JSON Schema
+    const validation = validatePayload(captured.body, settings?.validation)
+    if (validation) {
+      webhookEvent.validation = validation
+    }
+    const rejected = validation?.status === "invalid" && settings?.validation?.rejectInvalid
+
+    // Relay the request upstream when a forward URL is configured; rejected payloads stop here
+    if (settings?.forwardUrl && !rejected) {
+      webhookEvent.forward = await forwardWebhook(settings.forwardUrl, {
+        method,
+        headers,
+        query,
+        rawBody: rawBytes,
+      })
+    }
+
+    // Decide the response before storing so the event records what the sender got back
+    const rule = findMatchingRule(settings?.responseRules, {
+      method,
+      path: subPath ?? "/",
+      query,
+      headers,
+      body: captured.body,
+    })
+    const forward = webhookEvent.forward
+    let response: NextResponse
+    let droppedHeaders: string[] = []
+
+    if (rejected) {
+      response = NextResponse.json(
+        { success: false, error: `Payload does not match ${validation.schema}`, errors: validation.errors },
+        { status: 400 }
+      )
+    } else if (settings?.forwardResponse && forward && forward.status !== null && !forward.bodyTruncated) {
+      // Pass the upstream response straight back to the sender, byte for byte; a truncated body is never
+      // passed on, so those fall through to the configured response
+      const body = forward.body === null ? null : decodeRawBody(forward.body, forward.bodyEncoding ?? "utf8")
+      response = new NextResponse(body, {
+        status: forward.status,
+        headers: stripHopByHopHeaders(forward.headers, { decoded: true }),
+      })
+    } else if (rule || settings) {
+      // Use the matching rule, falling back to the endpoint's default response
+      const configured = rule ?? settings!
+      const templateContext: TemplateContext = {
+        method,
+        path: subPath ?? "/",
+        body: captured.body,
+        rawBody: captured.bodyEncoding === "utf8" ? captured.rawBody : null,
+        query,
+        headers,
+      }
+
+      const { headers: customHeaders, dropped } = renderHeaders(configured.responseHeaders, templateContext)
+      droppedHeaders = dropped
+      const responseBody = renderTemplate(configured.responseBody, templateContext)
+
+      // JSON bodies keep the JSON content type; anything else (e.g. an echoed challenge) goes out as plain text
+      let isJson = true
+      try {
+        JSON.parse(responseBody)
+      } catch {
+        isJson = false
+      }
+
+      // Statuses like 204 and 304 must not carry a body
+      const allowsBody = ![101, 204, 205, 304].includes(configured.responseStatus)
+
+      response = new NextResponse(allowsBody ? responseBody : null, {
+        status: configured.responseStatus,
+        headers: {
+          "Content-Type": isJson ? "application/json" : "text/plain; charset=utf-8",
+          ...customHeaders,
+        },
+      })
+    } else {
+      // Default response
+      response = NextResponse.json(
+        { success: true, message: "Webhook received" },
+        { status: 200 }
+      )
+    }
+
+    // Apply simulated delays, timeouts and failures configured for retry testing
+    const simulation = isSimulationActive(settings?.simulation) ? settings.simulation : null
+    let injected: InjectedFault | undefined
+    let delay = 0
+
+    if (simulation) {
+      if (simulation.hang) {
+        injected = "timeout"
+        response = NextResponse.json(
+          { success: false, error: "Injected timeout" },
+          { status: 504 }
+        )
+      } else {
+        const attempt = simulation.failFirstCount > 0 ? await redis.incr(`webhook:${uuid}:attempts`) : Infinity
+        if (shouldInjectFailure(simulation, attempt)) {
+          injected = "failure"
+          response = NextResponse.json(
+            { success: false, error: "Injected failure" },
+            { status: simulation.failureStatus }
+          )
+        }
+        delay = getHoldMs(getSimulatedDelay(simulation), startedAt, maxDuration * 1000)
+      }
+    }
+
+    webhookEvent.response = {
+      status: response.status,
+      ...(rule && !rejected && !injected && { rule: rule.name }),
+      ...(injected && { injected }),
+      ...(delay > 0 && { delay }),
+      ...(droppedHeaders.length > 0 && { droppedHeaders }),
+    }
+
+    // Store the event by id and index it by timestamp
+    await saveEvent(webhookEvent)
+
+    // Trim history to the endpoint's retention limits and push back its idle expiry
+    await enforceRetention(uuid, settings?.retention)
+    await touchEndpoint(uuid)
+
+    // Emit real-time event to specific channel
+    await realtime.channel(`webhook:${uuid}`).emit("webhook.received", webhookEvent)
+
+    // Hold the connection open until the sender gives up, or delay the reply
+    if (injected === "timeout") {
+      await sleep(getHoldMs(MAX_HANG_MS, startedAt, maxDuration * 1000), request.signal)
+    } else if (delay > 0) {
+      await sleep(delay, request.signal)
+    }
+
+    return response
+  } catch (error) {
+    console.error("Error processing webhook:", error)
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    )
+  }
+}
+
+// Export all HTTP methods
+export const GET = handleWebhook
+export const POST = handleWebhook
+export const PUT = handleWebhook
+export const DELETE = handleWebhook
+export const PATCH = handleWebhook
+export const OPTIONS = handleWebhook
+export const HEAD = handleWebhook
+
@@ -0,0 +1,81 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { generateApiKey, hasApiKey, revokeApiKey } from "@/app/actions/api-keys"
+import { Copy, KeyRound } from "lucide-react"
+import { toast } from "sonner"
+
+type ApiKeySettingsProps = {
+  uuid: string
+}
+
+export function ApiKeySettings({ uuid }: ApiKeySettingsProps) {
+  const [enabled, setEnabled] = useState(false)
+  // Only known right after generating; the server keeps a hash
+  const [newKey, setNewKey] = useState<string | null>(null)
+
+  useEffect(() => {
+    setNewKey(null)
+    hasApiKey(uuid).then(setEnabled)
+  }, [uuid])
+
+  const handleGenerate = async () => {
+    if (enabled && !confirm("Replace the current API key? Clients using it will stop working.")) {
+      return
+    }
+    const apiKey = await generateApiKey(uuid)
+    if (!apiKey) {
+      toast.error("Failed to generate API key")
+      return
+    }
+    setNewKey(apiKey)
+    setEnabled(true)
+  }
+
+  const handleRevoke = async () => {
+    if (!confirm("Revoke the API key? Clients using it will stop working.")) {
+      return
+    }
+    if (await revokeApiKey(uuid)) {
+      setNewKey(null)
+      setEnabled(false)
+      toast.success("API key revoked")
+    }
+  }
+
+  const copyKey = async () => {
+    if (!newKey) return
+    await navigator.clipboard.writeText(newKey)
+    toast.success("Copied API key")
+  }
+
+  return (
+    <div className="space-y-2">
+      {newKey && (
+        <div className="flex items-center gap-2">
+          <code className="flex-1 text-xs font-mono bg-muted px-2 py-2 break-all">{newKey}</code>
+          <Button variant="outline" size="sm" onClick={copyKey}>
+            <Copy className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={handleGenerate}>
+          <KeyRound className="h-4 w-4 mr-1" />
+          {enabled ? "Regenerate key" : "Generate key"}
+        </Button>
+        {enabled && (
+          <Button variant="ghost" size="sm" onClick={handleRevoke}>
+            Revoke
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {newKey
+          ? "Copy this key now; it will not be shown again."
+          : <>Send as <code className="font-mono">Authorization: Bearer &lt;key&gt;</code> to <code className="font-mono">/api/v1/endpoints/{uuid}/events</code></>}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { type WebhookEvent } from "@/app/actions/webhook"
+import { decodeRawBody, formatBytes, formatHexDump } from "@/lib/body"
+import { serializeBody } from "@/lib/forward"
+import { EDITOR_OPTIONS } from "@/lib/editor"
+import { Download } from "lucide-react"
+import Editor from "@monaco-editor/react"
+import { toast } from "sonner"
+import { PartsViewer } from "./parts-viewer"
+
+type BodyView = "parsed" | "raw" | "hex"
+
+type BodyViewerProps = {
+  event: WebhookEvent
+}
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  "application/json": "json",
+  "application/xml": "xml",
+  "text/xml": "xml",
+  "text/html": "html",
+  "text/plain": "txt",
+  "text/csv": "csv",
+  "application/x-www-form-urlencoded": "txt",
+  "application/x-protobuf": "pb",
+  "application/gzip": "gz",
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "application/pdf": "pdf",
+}
+
+export function BodyViewer({ event }: BodyViewerProps) {
+  const contentType = String(event.headers["content-type"] || "")
+  const hasParsed = event.body !== null && event.body !== undefined && event.body !== ""
+
+  // Events captured before raw bodies were stored only have the parsed body to go on
+  const bytes = useMemo(() => {
+    if (event.rawBody) {
+      return decodeRawBody(event.rawBody, event.bodyEncoding ?? "utf8")
+    }
+    const serialized = serializeBody(event.body, contentType)
+    return serialized ? new TextEncoder().encode(serialized) : new Uint8Array(0)
+  }, [event, contentType])
+
+  const isBinary = event.bodyEncoding === "base64"
+  const [view, setView] = useState<BodyView>("parsed")
+
+  useEffect(() => {
+    setView(hasParsed ? "parsed" : isBinary ? "hex" : "raw")
+  }, [event.id, hasParsed, isBinary])
+
+  const handleDownload = () => {
+    const mimeType = contentType.split(";")[0].trim() || "application/octet-stream"
+    const blob = new Blob([bytes], { type: mimeType })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `webhook-${event.id}.${FILE_EXTENSIONS[mimeType] || "bin"}`
+    a.click()
+    URL.revokeObjectURL(url)
+    toast.success("Downloaded original body")
+  }
+
+  if (bytes.length === 0) {
+    return (
+      <div>
+        <h3 className="text-sm font-semibold mb-3">Body</h3>
+        <p className="text-sm text-muted-foreground">No body</p>
+      </div>
+    )
+  }
+
+  const getEditorContent = () => {
+    switch (view) {
+      case "parsed":
+        return typeof event.body === "object"
+          ? { language: "json", value: JSON.stringify(event.body, null, 2) }
+          : { language: "plaintext", value: String(event.body) }
+      case "raw":
+        return isBinary
+          ? { language: "plaintext", value: event.rawBody || "" }
+          : { language: "plaintext", value: new TextDecoder().decode(bytes) }
+      case "hex":
+        return { language: "plaintext", value: formatHexDump(bytes) }
+    }
+  }
+
+  const views: { value: BodyView; label: string; enabled: boolean }[] = [
+    { value: "parsed", label: "Parsed", enabled: hasParsed },
+    { value: "raw", label: isBinary ? "Base64" : "Raw", enabled: true },
+    { value: "hex", label: "Hex", enabled: true },
+  ]
+
+  const content = getEditorContent()
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <h3 className="text-sm font-semibold">Body</h3>
+          <Badge variant="outline" className="text-xs">
+            {formatBytes(bytes.length)}
+          </Badge>
+          <Badge variant="outline" className="text-xs">
+            {isBinary ? "binary" : "utf-8"}
+          </Badge>
+        </div>
+        <div className="flex items-center gap-1">
+          {views.filter((option) => option.enabled).map((option) => (
+            <Button
+              key={option.value}
+              variant="ghost"
+              size="sm"
+              onClick={() => setView(option.value)}
+              className={view === option.value ? "bg-accent" : ""}
+            >
+              {option.label}
+            </Button>
+          ))}
+          <Button variant="ghost" size="sm" onClick={handleDownload} title="Download original bytes">
+            <Download className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <div className="border">
+        <Editor
+          height="400px"
+          language={content.language}
+          value={content.value}
+          options={EDITOR_OPTIONS}
+          theme="vs"
+        />
+      </div>
+      {event.parts && event.parts.length > 0 && (
+        <div className="mt-6">
+          <PartsViewer parts={event.parts} bytes={bytes} />
+        </div>
+      )}
+    </div>
+  )
+}
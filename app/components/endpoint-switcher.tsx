@@ -0,0 +1,226 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { type Endpoint } from "@/app/actions/endpoints"
+import { Check, ChevronDown, Link2, Pencil, Plus, Trash2 } from "lucide-react"
+import { toast } from "sonner"
+
+export const ENDPOINT_COLORS = [
+  "bg-gray-500",
+  "bg-blue-500",
+  "bg-green-500",
+  "bg-yellow-500",
+  "bg-orange-500",
+  "bg-red-500",
+  "bg-purple-500",
+  "bg-pink-500",
+]
+
+type EndpointSwitcherProps = {
+  workspaceId: string
+  endpoints: Endpoint[]
+  activeEndpointId: string
+  unreadCounts: Record<string, number>
+  onSelect: (endpointId: string) => void
+  onCreate: (name: string) => void
+  onUpdate: (endpointId: string, changes: Partial<Pick<Endpoint, "name" | "color">>) => void
+  onSetSlug: (endpointId: string, slug: string | null) => Promise<boolean>
+  onDelete: (endpointId: string) => void
+}
+
+export function EndpointSwitcher({
+  workspaceId,
+  endpoints,
+  activeEndpointId,
+  unreadCounts,
+  onSelect,
+  onCreate,
+  onUpdate,
+  onSetSlug,
+  onDelete,
+}: EndpointSwitcherProps) {
+  const [open, setOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editName, setEditName] = useState("")
+  const [editSlug, setEditSlug] = useState("")
+  const [newName, setNewName] = useState("")
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  const activeEndpoint = endpoints.find((endpoint) => endpoint.id === activeEndpointId)
+  const otherUnread = Object.entries(unreadCounts)
+    .filter(([id]) => id !== activeEndpointId)
+    .reduce((sum, [, count]) => sum + count, 0)
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!open) return
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setOpen(false)
+        setEditingId(null)
+      }
+    }
+    document.addEventListener("mousedown", handleClick)
+    return () => document.removeEventListener("mousedown", handleClick)
+  }, [open])
+
+  const startEditing = (endpoint: Endpoint, e: React.MouseEvent) => {
+    e.stopPropagation()
+    setEditingId(endpoint.id)
+    setEditName(endpoint.name)
+    setEditSlug(endpoint.slug || "")
+  }
+
+  const saveEdit = async (endpoint: Endpoint) => {
+    if (editName !== endpoint.name) {
+      onUpdate(endpoint.id, { name: editName })
+    }
+    // Keep the editor open when the slug is rejected so it can be corrected
+    if (editSlug !== (endpoint.slug || "") && !(await onSetSlug(endpoint.id, editSlug || null))) {
+      return
+    }
+    setEditingId(null)
+  }
+
+  // The workspace link is the only way back to these endpoints once browser storage is cleared
+  const copyWorkspaceLink = async () => {
+    await navigator.clipboard.writeText(`${window.location.origin}/?workspace=${workspaceId}`)
+    toast.success("Copied workspace link")
+  }
+
+  const handleCreate = () => {
+    onCreate(newName || `Endpoint ${endpoints.length + 1}`)
+    setNewName("")
+    setOpen(false)
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button variant="outline" className="w-full justify-between" onClick={() => setOpen(!open)}>
+        <span className="flex items-center gap-2 min-w-0">
+          <span className={`w-2 h-2 flex-shrink-0 ${activeEndpoint?.color || "bg-gray-500"}`} />
+          <span className="truncate">{activeEndpoint?.name || "Select endpoint"}</span>
+        </span>
+        <span className="flex items-center gap-2">
+          {otherUnread > 0 && <Badge className="text-xs">{otherUnread}</Badge>}
+          <ChevronDown className="h-4 w-4" />
+        </span>
+      </Button>
+
+      {open && (
+        <div className="absolute z-20 mt-1 w-full border bg-background shadow-md">
+          {endpoints.map((endpoint) => (
+            <div
+              key={endpoint.id}
+              className={`group p-2 cursor-pointer hover:bg-accent ${endpoint.id === activeEndpointId ? "bg-accent" : ""}`}
+              onClick={() => {
+                if (editingId === endpoint.id) return
+                onSelect(endpoint.id)
+                setOpen(false)
+              }}
+            >
+              {editingId === endpoint.id ? (
+                <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+                  <div className="flex gap-2">
+                    <Input
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && saveEdit(endpoint)}
+                      className="h-8"
+                      autoFocus
+                    />
+                    <Button size="sm" variant="ghost" onClick={() => saveEdit(endpoint)}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <span className="text-xs text-muted-foreground font-mono">/api/webhook/</span>
+                    <Input
+                      placeholder="custom-slug"
+                      value={editSlug}
+                      onChange={(e) => setEditSlug(e.target.value.toLowerCase())}
+                      onKeyDown={(e) => e.key === "Enter" && saveEdit(endpoint)}
+                      className="h-8 font-mono text-xs"
+                    />
+                  </div>
+                  <div className="flex gap-1">
+                    {ENDPOINT_COLORS.map((color) => (
+                      <button
+                        key={color}
+                        className={`w-5 h-5 ${color} ${endpoint.color === color ? "ring-2 ring-offset-1 ring-foreground" : ""}`}
+                        onClick={() => onUpdate(endpoint.id, { color })}
+                        title={color.replace("bg-", "").replace("-500", "")}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between gap-2 text-sm">
+                  <span className="flex items-center gap-2 min-w-0">
+                    <span className={`w-2 h-2 flex-shrink-0 ${endpoint.color}`} />
+                    <span className="truncate">{endpoint.name}</span>
+                    {endpoint.slug && (
+                      <span className="text-xs text-muted-foreground font-mono truncate">/{endpoint.slug}</span>
+                    )}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    {(unreadCounts[endpoint.id] || 0) > 0 && endpoint.id !== activeEndpointId && (
+                      <Badge className="text-xs">{unreadCounts[endpoint.id]}</Badge>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                      onClick={(e) => startEditing(endpoint, e)}
+                      title="Rename"
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    {endpoints.length > 1 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100 hover:text-destructive"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          if (confirm(`Delete "${endpoint.name}" and all of its webhooks? This cannot be undone.`)) {
+                            onDelete(endpoint.id)
+                          }
+                        }}
+                        title="Delete"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </span>
+                </div>
+              )}
+            </div>
+          ))}
+          <div className="flex gap-2 p-2 border-t">
+            <Input
+              placeholder="New endpoint name"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+              className="h-8"
+            />
+            <Button size="sm" variant="outline" onClick={handleCreate}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+          <button
+            className="flex w-full items-center gap-2 p-2 border-t text-xs text-muted-foreground hover:bg-accent"
+            onClick={copyWorkspaceLink}
+          >
+            <Link2 className="h-3 w-3" />
+            Copy workspace link
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,111 @@
+"use client"
+
+import { useMemo } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Separator } from "@/components/ui/separator"
+import { EDITOR_OPTIONS } from "@/lib/editor"
+import { diffEvents, formatDiffDocument, type DiffChange, type DiffSection } from "@/lib/event-diff"
+import { type WebhookEvent } from "@/app/actions/webhook"
+import { ArrowRight, X } from "lucide-react"
+import { DiffEditor } from "@monaco-editor/react"
+
+const SECTIONS: { id: DiffSection; label: string }[] = [
+  { id: "headers", label: "Headers" },
+  { id: "query", label: "Query Parameters" },
+  { id: "body", label: "Body" },
+]
+
+const KIND_STYLES: Record<DiffChange["kind"], string> = {
+  added: "border-green-500 text-green-600",
+  removed: "border-red-500 text-red-600",
+  changed: "border-yellow-500 text-yellow-600",
+}
+
+type EventDiffProps = {
+  event: WebhookEvent
+  compareEvent: WebhookEvent
+  onClose: () => void
+}
+
+function formatValue(value: unknown) {
+  const text = typeof value === "string" ? value : JSON.stringify(value) ?? String(value)
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text
+}
+
+export function EventDiff({ event, compareEvent, onClose }: EventDiffProps) {
+  // Always read the older event as the original, whichever was picked first
+  const [before, after] = event.timestamp < compareEvent.timestamp ? [event, compareEvent] : [compareEvent, event]
+  const changes = useMemo(() => diffEvents(before, after), [before, after])
+  const counts = changes.reduce(
+    (acc, change) => ({ ...acc, [change.kind]: acc[change.kind] + 1 }),
+    { added: 0, removed: 0, changed: 0 }
+  )
+
+  const describe = (item: WebhookEvent) => `${item.method} ${item.path || ""} · ${new Date(item.timestamp).toLocaleString()}`
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 text-sm min-w-0">
+          <span className="font-mono truncate" title={before.id}>{describe(before)}</span>
+          <ArrowRight className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+          <span className="font-mono truncate" title={after.id}>{describe(after)}</span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} title="Close comparison">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Badge variant="outline" className={`text-xs ${KIND_STYLES.added}`}>{counts.added} added</Badge>
+        <Badge variant="outline" className={`text-xs ${KIND_STYLES.removed}`}>{counts.removed} removed</Badge>
+        <Badge variant="outline" className={`text-xs ${KIND_STYLES.changed}`}>{counts.changed} changed</Badge>
+      </div>
+
+      <Separator />
+
+      {changes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Headers, query and body are identical</p>
+      ) : (
+        SECTIONS.map(({ id, label }) => {
+          const sectionChanges = changes.filter((change) => change.section === id)
+          if (sectionChanges.length === 0) return null
+          return (
+            <div key={id}>
+              <h3 className="text-sm font-semibold mb-3">{label}</h3>
+              <div className="space-y-1">
+                {sectionChanges.map((change) => (
+                  <div key={change.path} className="text-sm flex items-start gap-2">
+                    <Badge variant="outline" className={`text-xs w-16 justify-center ${KIND_STYLES[change.kind]}`}>
+                      {change.kind}
+                    </Badge>
+                    <span className="font-mono text-xs min-w-[200px] break-all">{change.path}</span>
+                    <span className="font-mono text-xs flex-1 break-all text-muted-foreground">
+                      {change.kind === "added" && formatValue(change.after)}
+                      {change.kind === "removed" && <span className="line-through">{formatValue(change.before)}</span>}
+                      {change.kind === "changed" && `${formatValue(change.before)} → ${formatValue(change.after)}`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )
+        })
+      )}
+
+      <Separator />
+
+      <div className="border">
+        <DiffEditor
+          height="480px"
+          language="json"
+          original={formatDiffDocument(before)}
+          modified={formatDiffDocument(after)}
+          options={{ ...EDITOR_OPTIONS, renderSideBySide: true, originalEditable: false }}
+          theme="vs"
+        />
+      </div>
+    </div>
+  )
+}
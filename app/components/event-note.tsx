@@ -0,0 +1,38 @@
+"use client"
+
+import { useState } from "react"
+import { updateWebhookEvent, type WebhookEvent } from "@/app/actions/webhook"
+import { toast } from "sonner"
+
+type EventNoteProps = {
+  event: WebhookEvent
+  onUpdate?: (event: WebhookEvent) => void
+}
+
+export function EventNote({ event, onUpdate }: EventNoteProps) {
+  const [note, setNote] = useState(event.note || "")
+
+  // Save when focus leaves the field, and only if something changed
+  const saveNote = async () => {
+    if (note === (event.note || "")) return
+    const updated = await updateWebhookEvent(event.uuid, event.id, { note: note || undefined })
+    if (!updated) {
+      toast.error("Failed to save note")
+      return
+    }
+    onUpdate?.(updated)
+  }
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold">Note</h3>
+      <textarea
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        onBlur={saveNote}
+        placeholder="Add a note about this event..."
+        className="w-full min-h-[60px] p-2 border bg-background text-sm"
+      />
+    </div>
+  )
+}
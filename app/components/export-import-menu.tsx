@@ -0,0 +1,134 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { exportWebhookEvents, importWebhookEvents } from "@/app/actions/webhook"
+import { EXPORT_FORMATS, exportEvents, importEvents, type ExportFormat } from "@/lib/export-formats"
+import { isFilterActive, type EventFilter } from "@/lib/event-filter"
+import { ArrowDownUp, Download, Upload } from "lucide-react"
+import { toast } from "sonner"
+
+type ExportImportMenuProps = {
+  uuid: string
+  endpointName?: string
+  filter: EventFilter
+  onImported?: () => void
+}
+
+export function ExportImportMenu({ uuid, endpointName, filter, onImported }: ExportImportMenuProps) {
+  const [open, setOpen] = useState(false)
+  const [filteredOnly, setFilteredOnly] = useState(true)
+  const [busy, setBusy] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const hasFilter = isFilterActive(filter)
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!open) return
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener("mousedown", handleClick)
+    return () => document.removeEventListener("mousedown", handleClick)
+  }, [open])
+
+  const handleExport = async (format: ExportFormat) => {
+    setBusy(true)
+    const events = await exportWebhookEvents(uuid, hasFilter && filteredOnly ? filter : {})
+    setBusy(false)
+    if (events.length === 0) {
+      toast.error("No events to export")
+      return
+    }
+
+    const { extension, mimeType } = EXPORT_FORMATS.find((item) => item.id === format)!
+    const name = endpointName || "eHook webhooks"
+    const blob = new Blob([exportEvents(events, format, name)], { type: mimeType })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = `${name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}.${extension}`
+    a.click()
+    URL.revokeObjectURL(url)
+    setOpen(false)
+    toast.success(`Exported ${events.length} events`)
+  }
+
+  const handleImport = async (file: File) => {
+    let imported
+    try {
+      imported = importEvents(await file.text())
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Could not read file")
+      return
+    }
+
+    setBusy(true)
+    const result = await importWebhookEvents(uuid, imported)
+    setBusy(false)
+    if (result.error) {
+      toast.error(
+        result.imported > 0 ? `Import stopped after ${result.imported} events: ${result.error}` : `Import failed: ${result.error}`
+      )
+      // Show whatever made it in before the failure
+      if (result.imported > 0) onImported?.()
+      return
+    }
+    setOpen(false)
+    toast.success(`Imported ${result.imported} events`)
+    onImported?.()
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button variant="ghost" size="sm" onClick={() => setOpen(!open)} title="Export or import">
+        <ArrowDownUp className="h-4 w-4" />
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-1 w-64 border bg-background shadow-md text-sm">
+          <div className="p-2 text-xs font-medium text-muted-foreground">Export</div>
+          {hasFilter && (
+            <label className="flex items-center gap-2 px-2 pb-2 text-xs">
+              <input type="checkbox" checked={filteredOnly} onChange={(e) => setFilteredOnly(e.target.checked)} />
+              Only events matching the current filters
+            </label>
+          )}
+          {EXPORT_FORMATS.map((format) => (
+            <button
+              key={format.id}
+              className="flex w-full items-center gap-2 p-2 hover:bg-accent disabled:opacity-50"
+              onClick={() => handleExport(format.id)}
+              disabled={busy}
+            >
+              <Download className="h-3 w-3" />
+              {format.label}
+            </button>
+          ))}
+          <button
+            className="flex w-full items-center gap-2 p-2 border-t hover:bg-accent disabled:opacity-50"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+          >
+            <Upload className="h-3 w-3" />
+            Import HAR, JSONL, Postman or Insomnia...
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".har,.json,.jsonl,.ndjson"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              e.target.value = ""
+              if (file) handleImport(file)
+            }}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
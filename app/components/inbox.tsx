@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useState, useMemo } from "react"
+import { useCallback, useEffect, useState, useMemo, useRef } from "react"
 import Link from "next/link"
 import { useRealtime } from "@upstash/realtime/client"
 import { ScrollArea } from "@/components/ui/scroll-area"
@@ -8,11 +8,42 @@ import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Separator } from "@/components/ui/separator"
-import { getWebhookEvents, deleteAllWebhookEvents, deleteWebhookEvent, type WebhookEvent } from "@/app/actions/webhook"
+import {
+  getWebhookEvents,
+  deleteAllWebhookEvents,
+  deleteWebhookEvent,
+  getRetentionStatus,
+  updateWebhookEvent,
+  type WebhookEvent,
+} from "@/app/actions/webhook"
 import { RealtimeEvents } from "@/lib/realtime"
-import { Trash2, Search, Webhook, CreditCard, Github, MessageSquare, ShoppingCart, Phone, Mail, Globe, Code, Settings } from "lucide-react"
+import { Trash2, Archive, SlidersHorizontal, Loader2, Star, GitCompare, Webhook, CreditCard, Github, MessageSquare, ShoppingCart, Phone, Mail, Globe, Code, Settings, Send } from "lucide-react"
 import { toast } from "sonner"
 import { formatDistanceToNow } from "date-fns"
+import { SignatureIcon, getSignatureLabel } from "./signature-badge"
+import { SchemaIcon, getSchemaLabel } from "./schema-badge"
+import { ExportImportMenu } from "./export-import-menu"
+import { QueryInput } from "./query-input"
+import { SavedSearchesMenu } from "./saved-searches-menu"
+import { formatBytes } from "@/lib/body"
+import { type RetentionStatus } from "@/lib/retention"
+import { isFilterActive, matchesEventFilter, type EventFilter, type SignatureFilter } from "@/lib/event-filter"
+import { buildQueryVocabulary } from "@/lib/event-query"
+import { decodeProvider, WEBHOOK_PROVIDERS } from "@/lib/providers"
+
+const METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS", "HEAD"]
+
+// Keyed by provider id from the registry in lib/providers
+const PROVIDER_ICONS: Record<string, React.ReactNode> = {
+  stripe: <CreditCard className="h-4 w-4 text-purple-500" />,
+  github: <Github className="h-4 w-4 text-gray-800" />,
+  slack: <MessageSquare className="h-4 w-4 text-purple-600" />,
+  shopify: <ShoppingCart className="h-4 w-4 text-green-600" />,
+  twilio: <Phone className="h-4 w-4 text-red-500" />,
+  sendgrid: <Mail className="h-4 w-4 text-blue-500" />,
+  mailgun: <Mail className="h-4 w-4 text-blue-500" />,
+  discord: <MessageSquare className="h-4 w-4 text-indigo-500" />,
+}
 
 type InboxProps = {
   uuid: string
@@ -23,62 +54,183 @@ type InboxProps = {
   onEventsChange?: () => void
   onOpenSettings?: () => void
   showSettings?: boolean
+  onOpenSender?: () => void
+  showSender?: boolean
+  // Every endpoint in the workspace, so events for inactive ones can be counted as unread
+  endpointIds?: string[]
+  onOtherEndpointEvent?: (endpointId: string) => void
+  endpointSwitcher?: React.ReactNode
+  // An event changed elsewhere (e.g. starred or annotated in the viewer)
+  updatedEvent?: WebhookEvent | null
+  onEventUpdate?: (event: WebhookEvent) => void
+  endpointName?: string
+  // Second event to diff against the selected one
+  compareEventId?: string | null
+  onCompareEvent?: (event: WebhookEvent) => void
 }
 
-export function Inbox({ uuid, onSelectEvent, selectedEventId, onStatusChange, onNewEvent, onEventsChange, onOpenSettings, showSettings }: InboxProps) {
+export function Inbox({ uuid, onSelectEvent, selectedEventId, onStatusChange, onNewEvent, onEventsChange, onOpenSettings, showSettings, onOpenSender, showSender, endpointIds, onOtherEndpointEvent, endpointSwitcher, updatedEvent, onEventUpdate, endpointName, compareEventId, onCompareEvent }: InboxProps) {
   const [events, setEvents] = useState<WebhookEvent[]>([])
   const [searchQuery, setSearchQuery] = useState("")
+  const [signatureFilter, setSignatureFilter] = useState<SignatureFilter>("all")
+  const [methodFilter, setMethodFilter] = useState("")
+  const [headerFilter, setHeaderFilter] = useState("")
+  const [fromTime, setFromTime] = useState("")
+  const [toTime, setToTime] = useState("")
+  const [showFilters, setShowFilters] = useState(false)
+  const [starredOnly, setStarredOnly] = useState(false)
+  const [providerFilter, setProviderFilter] = useState("")
+  const [eventTypeFilter, setEventTypeFilter] = useState("")
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [retentionStatus, setRetentionStatus] = useState<RetentionStatus | null>(null)
+
+  const filter = useMemo<EventFilter>(() => ({
+    search: searchQuery,
+    method: methodFilter || undefined,
+    header: headerFilter,
+    signature: signatureFilter,
+    starred: starredOnly || undefined,
+    provider: providerFilter || undefined,
+    eventType: eventTypeFilter,
+    from: fromTime ? new Date(fromTime).getTime() : undefined,
+    to: toTime ? new Date(toTime).getTime() : undefined,
+  }), [searchQuery, methodFilter, headerFilter, signatureFilter, starredOnly, providerFilter, eventTypeFilter, fromTime, toTime])
+
+  // Autocomplete offers the header names and body keys seen in the loaded events
+  const vocabulary = useMemo(() => buildQueryVocabulary(events), [events])
+
+  // Wait for typing to settle before asking the server for a new first page
+  const [appliedFilter, setAppliedFilter] = useState(filter)
+  useEffect(() => {
+    const timeout = setTimeout(() => setAppliedFilter(filter), 300)
+    return () => clearTimeout(timeout)
+  }, [filter])
+
+  // The realtime subscription keeps its first callback, so read the latest props through a ref
+  const latest = useRef({ uuid, onNewEvent, onOtherEndpointEvent, loadRetentionStatus, loadEvents, appliedFilter })
+  useEffect(() => {
+    latest.current = { uuid, onNewEvent, onOtherEndpointEvent, loadRetentionStatus, loadEvents, appliedFilter }
+  })
 
   // Subscribe to real-time events
   useRealtime<RealtimeEvents>({
     event: "webhook.received",
-    channels: [`webhook:${uuid}`],
+    channels: (endpointIds?.length ? endpointIds : [uuid]).map((id) => `webhook:${id}`),
     onData: (data) => {
-      // Only add if the event is for this UUID
-      if (data.uuid === uuid) {
+      const { uuid, onNewEvent, onOtherEndpointEvent, loadRetentionStatus, appliedFilter } = latest.current
+      // Events for other endpoints only bump their unread count
+      if (data.uuid !== uuid) {
+        onOtherEndpointEvent?.(data.uuid)
+        return
+      }
+
+      // Only list live events that belong on the current filtered page
+      if (matchesEventFilter(data, appliedFilter)) {
         setEvents((prev) => [data, ...prev])
-        // Notify parent about new event
-        onNewEvent?.()
-        // Show toast notification if window is visible
-        if (!document.hidden && document.hasFocus()) {
-          toast.success(`${data.method} webhook received`, {
-            description: new Date(data.timestamp).toLocaleTimeString(),
-            duration: 3000,
-          })
-        }
+      }
+      // The server may have trimmed older events to make room
+      loadRetentionStatus()
+      // Notify parent about new event
+      onNewEvent?.()
+      // Show toast notification if window is visible
+      if (!document.hidden && document.hasFocus()) {
+        toast.success(`${data.method} webhook received`, {
+          description: new Date(data.timestamp).toLocaleTimeString(),
+          duration: 3000,
+        })
       }
     },
   })
 
+  // Another tab or session imported a file into this endpoint
+  useRealtime<RealtimeEvents>({
+    event: "webhook.imported",
+    channels: [`webhook:${uuid}`],
+    onData: (data) => {
+      if (data.uuid === latest.current.uuid) latest.current.loadEvents()
+    },
+  })
+
   // Set status to connected when component mounts
   useEffect(() => {
     onStatusChange("connected")
   }, [onStatusChange])
 
-  // Load initial events
-  const loadEvents = async () => {
-    const initialEvents = await getWebhookEvents(uuid)
-    setEvents(initialEvents)
+  // Responses for a superseded uuid or filter are ignored
+  const requestId = useRef(0)
+
+  // Load the first page of events
+  async function loadEvents() {
+    const id = ++requestId.current
+    setLoading(true)
+    const page = await getWebhookEvents(uuid, { filter: appliedFilter })
+    if (id !== requestId.current) return
+    setEvents(page.events)
+    setNextCursor(page.nextCursor)
+    setLoading(false)
+    loadRetentionStatus()
   }
 
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loading) return
+    const id = requestId.current
+    setLoading(true)
+    const page = await getWebhookEvents(uuid, { cursor: nextCursor, filter: appliedFilter })
+    if (id !== requestId.current) return
+    // Live events may already have shifted the list, so skip anything shown
+    setEvents((prev) => {
+      const seen = new Set(prev.map((event) => event.id))
+      return [...prev, ...page.events.filter((event) => !seen.has(event.id))]
+    })
+    setNextCursor(page.nextCursor)
+    setLoading(false)
+  }, [uuid, nextCursor, loading, appliedFilter])
+
   useEffect(() => {
     loadEvents()
-  }, [uuid])
+  }, [uuid, appliedFilter])
+
+  // Fetch the next page when the end of the list scrolls into view
+  const sentinelRef = useRef<HTMLDivElement>(null)
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!sentinel) return
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0]?.isIntersecting) loadMore()
+    })
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [loadMore])
+
+  async function loadRetentionStatus() {
+    const status = await getRetentionStatus(uuid)
+    setRetentionStatus(status)
+    // Drop events beyond the count limit, which the server has already trimmed
+    if (status) {
+      setEvents((prev) => prev.slice(0, status.retention.maxEvents))
+    }
+  }
 
   const handleDeleteAll = async () => {
-    if (!confirm(`Are you sure you want to delete all ${events.length} webhooks? This cannot be undone.`)) {
+    // Only the first page is loaded, so count from the stored history
+    const total = retentionStatus?.count ?? events.length
+    if (!confirm(`Are you sure you want to delete all ${total} webhooks? This cannot be undone.`)) {
       return
     }
     await deleteAllWebhookEvents(uuid)
     setEvents([])
+    setNextCursor(null)
+    loadRetentionStatus()
     onEventsChange?.()
-    toast.success(`Deleted all ${events.length} webhooks`)
+    toast.success(`Deleted all ${total} webhooks`)
   }
 
   const handleDeleteOne = async (eventId: string, e: React.MouseEvent) => {
     e.stopPropagation() // Prevent selecting the event when clicking delete
     await deleteWebhookEvent(uuid, eventId)
     setEvents((prev) => prev.filter((event) => event.id !== eventId))
+    loadRetentionStatus()
     toast.success("Webhook deleted")
     
     // If deleting the selected event, clear selection
@@ -87,6 +239,21 @@ export function Inbox({ uuid, onSelectEvent, selectedEventId, onStatusChange, on
     }
   }
 
+  useEffect(() => {
+    if (updatedEvent) {
+      setEvents((prev) => prev.map((event) => (event.id === updatedEvent.id ? updatedEvent : event)))
+    }
+  }, [updatedEvent])
+
+  const handleToggleStar = async (event: WebhookEvent, e: React.MouseEvent) => {
+    e.stopPropagation()
+    const updated = await updateWebhookEvent(uuid, event.id, { starred: !event.starred })
+    if (updated) {
+      setEvents((prev) => prev.map((item) => (item.id === updated.id ? updated : item)))
+      onEventUpdate?.(updated)
+    }
+  }
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyPress = (e: KeyboardEvent) => {
@@ -108,44 +275,6 @@ export function Inbox({ uuid, onSelectEvent, selectedEventId, onStatusChange, on
     return () => window.removeEventListener('keydown', handleKeyPress)
   }, [onOpenSettings])
 
-  // Filter events based on search query
-  const filteredEvents = useMemo(() => {
-    if (!searchQuery.trim()) {
-      return events
-    }
-
-    const query = searchQuery.toLowerCase()
-
-    return events.filter((event) => {
-      // Search in method
-      if (event.method.toLowerCase().includes(query)) return true
-
-      // Search in URL
-      if (event.url.toLowerCase().includes(query)) return true
-
-      // Search in headers
-      const headersString = JSON.stringify(event.headers).toLowerCase()
-      if (headersString.includes(query)) return true
-
-      // Search in query params
-      const queryString = JSON.stringify(event.query).toLowerCase()
-      if (queryString.includes(query)) return true
-
-      // Search in body
-      if (event.body) {
-        const bodyString = typeof event.body === "string"
-          ? event.body.toLowerCase()
-          : JSON.stringify(event.body).toLowerCase()
-        if (bodyString.includes(query)) return true
-      }
-
-      // Search in ID
-      if (event.id.toLowerCase().includes(query)) return true
-
-      return false
-    })
-  }, [events, searchQuery])
-
   const getMethodColor = (method: string) => {
     switch (method.toLowerCase()) {
       case "get":
@@ -181,47 +310,15 @@ export function Inbox({ uuid, onSelectEvent, selectedEventId, onStatusChange, on
     return "No body"
   }
 
-  const getWebhookIcon = (event: WebhookEvent) => {
-    const headers = event.headers
-    const headersLower = Object.keys(headers).reduce((acc, key) => {
-      acc[key.toLowerCase()] = headers[key]
-      return acc
-    }, {} as Record<string, unknown>)
-
-    // Stripe
-    if (headersLower['stripe-signature'] || headersLower['x-stripe-signature']) {
-      return <CreditCard className="h-4 w-4 text-purple-500" />
+  const getWebhookIcon = (event: WebhookEvent, provider?: string) => {
+    if (provider && PROVIDER_ICONS[provider]) {
+      return PROVIDER_ICONS[provider]
     }
 
-    // GitHub
-    if (headersLower['x-github-event'] || headersLower['x-github-delivery']) {
-      return <Github className="h-4 w-4 text-gray-800" />
-    }
-
-    // Slack
-    if (headersLower['x-slack-signature'] || headersLower['x-slack-request-timestamp']) {
-      return <MessageSquare className="h-4 w-4 text-purple-600" />
-    }
-
-    // Shopify
-    if (headersLower['x-shopify-topic'] || headersLower['x-shopify-hmac-sha256']) {
-      return <ShoppingCart className="h-4 w-4 text-green-600" />
-    }
-
-    // Twilio
-    if (headersLower['x-twilio-signature'] || headersLower['i-twilio-idempotency-token']) {
-      return <Phone className="h-4 w-4 text-red-500" />
-    }
-
-    // SendGrid / Mailgun
-    if (headersLower['x-twilio-email-signature'] || headersLower['x-mailgun-signature']) {
-      return <Mail className="h-4 w-4 text-blue-500" />
-    }
-
-    // Discord
-    if (headersLower['x-signature-ed25519'] || headersLower['x-signature-timestamp']) {
-      return <MessageSquare className="h-4 w-4 text-indigo-500" />
-    }
+    const headersLower = Object.keys(event.headers).reduce((acc, key) => {
+      acc[key.toLowerCase()] = event.headers[key]
+      return acc
+    }, {} as Record<string, unknown>)
 
     // Check for JSON content type
     const contentType = headersLower['content-type']
@@ -245,6 +342,15 @@ export function Inbox({ uuid, onSelectEvent, selectedEventId, onStatusChange, on
         <div className="flex items-center justify-between">
           <h2 className="text-lg font-semibold">eHook by <Link href="https://inbound.new" target="_blank">inbound</Link></h2>
           <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onOpenSender}
+              className={showSender ? "bg-accent" : ""}
+              title="Send a webhook"
+            >
+              <Send className="h-4 w-4" />
+            </Button>
             <Button 
               variant="outline" 
               size="sm" 
@@ -253,6 +359,7 @@ export function Inbox({ uuid, onSelectEvent, selectedEventId, onStatusChange, on
             >
               <Settings className="h-4 w-4" />
             </Button>
+            <ExportImportMenu uuid={uuid} endpointName={endpointName} filter={appliedFilter} onImported={loadEvents} />
             {events.length > 0 && (
               <Button variant="ghost" size="sm" onClick={handleDeleteAll}>
                 <Trash2 className="h-4 w-4" />
@@ -261,20 +368,113 @@ export function Inbox({ uuid, onSelectEvent, selectedEventId, onStatusChange, on
           </div>
         </div>
 
-        <div className="relative">
-          <Search className="absolute left-2 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            type="text"
-            placeholder="Search events..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-8"
-          />
+        {endpointSwitcher}
+
+        <div className="flex gap-2">
+          <QueryInput value={searchQuery} onChange={setSearchQuery} vocabulary={vocabulary} />
+          <SavedSearchesMenu uuid={uuid} query={searchQuery} onApply={setSearchQuery} />
+          <select
+            value={signatureFilter}
+            onChange={(e) => setSignatureFilter(e.target.value as SignatureFilter)}
+            className="h-9 border bg-background px-2 text-sm"
+            title="Filter by signature"
+          >
+            <option value="all">All signatures</option>
+            <option value="valid">Valid</option>
+            <option value="invalid">Invalid</option>
+            <option value="unverified">Not verified</option>
+            <option value="unsigned">Unsigned</option>
+          </select>
+          <Button
+            variant="outline"
+            size="sm"
+            className={`h-9 ${showFilters ? "bg-accent" : ""}`}
+            onClick={() => setShowFilters(!showFilters)}
+            title="More filters"
+          >
+            <SlidersHorizontal className="h-4 w-4" />
+          </Button>
         </div>
 
+        {showFilters && (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <select
+                value={methodFilter}
+                onChange={(e) => setMethodFilter(e.target.value)}
+                className="h-9 border bg-background px-2 text-sm"
+                title="Filter by method"
+              >
+                <option value="">Any method</option>
+                {METHODS.map((method) => (
+                  <option key={method} value={method}>{method}</option>
+                ))}
+              </select>
+              <Input
+                placeholder="Header, e.g. x-github-event: push"
+                value={headerFilter}
+                onChange={(e) => setHeaderFilter(e.target.value)}
+                className="flex-1 font-mono text-xs"
+              />
+            </div>
+            <div className="flex gap-2">
+              <select
+                value={providerFilter}
+                onChange={(e) => setProviderFilter(e.target.value)}
+                className="h-9 border bg-background px-2 text-sm"
+                title="Filter by provider"
+              >
+                <option value="">Any provider</option>
+                {WEBHOOK_PROVIDERS.map((provider) => (
+                  <option key={provider.id} value={provider.id}>{provider.label}</option>
+                ))}
+              </select>
+              <Input
+                placeholder="Event type, e.g. invoice.*"
+                value={eventTypeFilter}
+                onChange={(e) => setEventTypeFilter(e.target.value)}
+                className="flex-1 font-mono text-xs"
+                list="inbox-event-types"
+              />
+              <datalist id="inbox-event-types">
+                {[...vocabulary.eventTypes].sort().map((eventType) => (
+                  <option key={eventType} value={eventType} />
+                ))}
+              </datalist>
+            </div>
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <Input
+                type="datetime-local"
+                value={fromTime}
+                onChange={(e) => setFromTime(e.target.value)}
+                className="flex-1 text-xs"
+                title="Received after"
+              />
+              <span>to</span>
+              <Input
+                type="datetime-local"
+                value={toTime}
+                onChange={(e) => setToTime(e.target.value)}
+                className="flex-1 text-xs"
+                title="Received before"
+              />
+              <label className="flex items-center gap-1 whitespace-nowrap">
+                <input
+                  type="checkbox"
+                  checked={starredOnly}
+                  onChange={(e) => setStarredOnly(e.target.checked)}
+                />
+                Starred
+              </label>
+            </div>
+          </div>
+        )}
+
         <div className="flex items-center justify-between text-sm">
           <p className="text-muted-foreground">
-            {filteredEvents.length} {filteredEvents.length === events.length ? "events" : `of ${events.length} events`}
+            {isFilterActive(appliedFilter)
+              ? `${events.length}${nextCursor ? "+" : ""} matching events`
+              : `${retentionStatus?.count ?? events.length} events`}
           </p>
           {events.length > 0 && (
             <div className="flex items-center gap-2">
@@ -291,59 +491,130 @@ export function Inbox({ uuid, onSelectEvent, selectedEventId, onStatusChange, on
             </div>
           )}
         </div>
+
+        {retentionStatus && (
+          <p
+            className="flex items-center gap-1.5 text-xs text-muted-foreground"
+            title={retentionStatus.idleExpiresAt
+              ? `All data for this endpoint expires ${formatTime(retentionStatus.idleExpiresAt)} unless it receives more webhooks`
+              : undefined}
+          >
+            <Archive className="h-3 w-3 flex-shrink-0" />
+            <span>
+              Keeping {retentionStatus.count} of {retentionStatus.retention.maxEvents}
+              {retentionStatus.bytes !== null && ` · ${formatBytes(retentionStatus.bytes)}`}
+              {retentionStatus.bytes !== null && retentionStatus.retention.maxBytes > 0 &&
+                ` of ${formatBytes(retentionStatus.retention.maxBytes)}`}
+              {retentionStatus.oldestExpiresAt && ` · oldest expires ${formatTime(retentionStatus.oldestExpiresAt)}`}
+            </span>
+          </p>
+        )}
       </div>
       <Separator />
       <ScrollArea className="flex-1">
         <div>
-          {events.length === 0 ? (
+          {events.length === 0 && loading ? null : events.length === 0 && !isFilterActive(appliedFilter) ? (
             <div className="p-4 text-center text-sm text-muted-foreground">
               Waiting for webhooks...
             </div>
-          ) : filteredEvents.length === 0 ? (
+          ) : events.length === 0 && !nextCursor ? (
             <div className="p-4 text-center text-sm text-muted-foreground">
               No events match your search
             </div>
           ) : (
-            filteredEvents.map((event, index) => (
-              <div key={event.id}>
-                <div
-                  className={`group p-3 cursor-pointer hover:bg-accent transition-colors ${selectedEventId === event.id ? "bg-accent" : ""
-                    }`}
-                  onClick={() => onSelectEvent(event)}
-                >
-                  <div className="flex items-start gap-3">
-                    <div className="flex-shrink-0 mt-0.5">
-                      {getWebhookIcon(event)}
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center justify-between mb-1">
-                        <Badge className={`${getMethodColor(event.method)} text-white text-xs`}>
-                          {event.method}
-                        </Badge>
-                        <div className="flex items-center gap-2">
-                          <span className="text-xs text-muted-foreground">
-                            {formatTime(event.timestamp)}
-                          </span>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            className="h-5 w-5 p-0 opacity-0 group-hover:opacity-100 hover:text-destructive transition-opacity"
-                            onClick={(e) => handleDeleteOne(event.id, e)}
-                          >
-                            <Trash2 className="h-3 w-3" />
-                          </Button>
+            events.map((event, index) => {
+              const details = decodeProvider(event)
+              return (
+                <div key={event.id}>
+                  <div
+                    className={`group p-3 cursor-pointer hover:bg-accent transition-colors ${selectedEventId === event.id ? "bg-accent" : ""
+                      } ${compareEventId === event.id ? "bg-accent/50" : ""}`}
+                    onClick={(e) => (e.shiftKey && onCompareEvent ? onCompareEvent(event) : onSelectEvent(event))}
+                  >
+                    <div className="flex items-start gap-3">
+                      <div className="flex-shrink-0 mt-0.5">
+                        {getWebhookIcon(event, details?.provider)}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center justify-between mb-1">
+                          <div className="flex items-center gap-1.5">
+                            <Badge className={`${getMethodColor(event.method)} text-white text-xs`}>
+                              {event.method}
+                            </Badge>
+                            {event.signature && (
+                              <span title={getSignatureLabel(event.signature)}>
+                                <SignatureIcon signature={event.signature} />
+                              </span>
+                            )}
+                            {event.validation && (
+                              <span title={getSchemaLabel(event.validation)}>
+                                <SchemaIcon validation={event.validation} />
+                              </span>
+                            )}
+                            {event.response?.injected && (
+                              <Badge variant="outline" className="text-xs border-red-500 text-red-600">
+                                {event.response.injected === "timeout" ? "Timeout" : `Injected ${event.response.status}`}
+                              </Badge>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <span className="text-xs text-muted-foreground">
+                              {formatTime(event.timestamp)}
+                            </span>
+                            {selectedEventId && selectedEventId !== event.id && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className={`h-5 w-5 p-0 transition-opacity ${compareEventId === event.id ? "text-primary" : "opacity-0 group-hover:opacity-100"}`}
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  onCompareEvent?.(event)
+                                }}
+                                title={compareEventId === event.id ? "Stop comparing" : "Compare with selected event (Shift+click)"}
+                              >
+                                <GitCompare className="h-3 w-3" />
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className={`h-5 w-5 p-0 transition-opacity ${event.starred ? "" : "opacity-0 group-hover:opacity-100"}`}
+                              onClick={(e) => handleToggleStar(event, e)}
+                              title={event.starred ? "Unstar" : "Star"}
+                            >
+                              <Star className={`h-3 w-3 ${event.starred ? "fill-yellow-400 text-yellow-500" : ""}`} />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-5 w-5 p-0 opacity-0 group-hover:opacity-100 hover:text-destructive transition-opacity"
+                              onClick={(e) => handleDeleteOne(event.id, e)}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </div>
                         </div>
+                        {details?.eventType && (
+                          <p className="text-sm font-medium truncate" title={`${details.label} ${details.eventType}`}>
+                            {details.eventType}
+                          </p>
+                        )}
+                        <p className="text-xs text-muted-foreground truncate">
+                          {event.path && <span className="font-mono text-foreground mr-1">{event.path}</span>}
+                          {details?.summary ?? getPreview(event)}
+                        </p>
                       </div>
-                      <p className="text-xs text-muted-foreground truncate">
-                        {getPreview(event)}
-                      </p>
                     </div>
                   </div>
+                  {index < events.length - 1 && <Separator />}
                 </div>
-                {index < filteredEvents.length - 1 && <Separator />}
-              </div>
-            ))
+              )
+            })
           )}
+          {/* Scrolling this into view loads the next page */}
+          <div ref={sentinelRef} className="flex justify-center p-2">
+            {loading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          </div>
         </div>
       </ScrollArea>
     </div>
@@ -1,21 +1,43 @@
 "use client"
 
+import { useState } from "react"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Separator } from "@/components/ui/separator"
+import { getStatusColor } from "@/lib/utils"
+import { EDITOR_OPTIONS } from "@/lib/editor"
+import { formatBytes } from "@/lib/body"
+import { MAX_FORWARD_BODY_BYTES, formatResultBody } from "@/lib/forward"
+import { decodeProvider } from "@/lib/providers"
 import { type WebhookEvent } from "@/app/actions/webhook"
-import { deleteWebhookEvent } from "@/app/actions/webhook"
-import { Trash2, Download, Copy, Terminal } from "lucide-react"
+import { deleteWebhookEvent, updateWebhookEvent } from "@/app/actions/webhook"
+import { ReplayPanel } from "./replay-panel"
+import { SnippetPanel } from "./snippet-panel"
+import { TypeGenerator } from "./type-generator"
+import { EventDiff } from "./event-diff"
+import { BodyViewer } from "./body-viewer"
+import { SignatureBadge } from "./signature-badge"
+import { SchemaBadge } from "./schema-badge"
+import { EventNote } from "./event-note"
+import { Trash2, Download, Terminal, RotateCcw, Star, Braces } from "lucide-react"
 import Editor from "@monaco-editor/react"
 import { toast } from "sonner"
 
 type MessageViewerProps = {
   event: WebhookEvent | null
   onDelete: () => void
+  onUpdate?: (event: WebhookEvent) => void
+  // A second event picked in the inbox switches the viewer to a comparison
+  compareEvent?: WebhookEvent | null
+  onCloseCompare?: () => void
 }
 
-export function MessageViewer({ event, onDelete }: MessageViewerProps) {
+export function MessageViewer({ event, onDelete, onUpdate, compareEvent, onCloseCompare }: MessageViewerProps) {
+  const [showReplay, setShowReplay] = useState(false)
+  const [showSnippet, setShowSnippet] = useState(false)
+  const [showTypes, setShowTypes] = useState(false)
+
   if (!event) {
     return (
       <div className="flex items-center justify-center h-full text-muted-foreground">
@@ -27,6 +49,14 @@ export function MessageViewer({ event, onDelete }: MessageViewerProps) {
     )
   }
 
+  if (compareEvent && compareEvent.id !== event.id) {
+    return (
+      <ScrollArea className="h-full">
+        <EventDiff event={event} compareEvent={compareEvent} onClose={() => onCloseCompare?.()} />
+      </ScrollArea>
+    )
+  }
+
   const getMethodColor = (method: string) => {
     switch (method.toLowerCase()) {
       case "get":
@@ -53,6 +83,13 @@ export function MessageViewer({ event, onDelete }: MessageViewerProps) {
     onDelete()
   }
 
+  const handleToggleStar = async () => {
+    const updated = await updateWebhookEvent(event.uuid, event.id, { starred: !event.starred })
+    if (updated) {
+      onUpdate?.(updated)
+    }
+  }
+
   const handleExportJSON = () => {
     const json = JSON.stringify(event, null, 2)
     const blob = new Blob([json], { type: 'application/json' })
@@ -65,32 +102,22 @@ export function MessageViewer({ event, onDelete }: MessageViewerProps) {
     toast.success("Exported webhook as JSON")
   }
 
-  const handleCopyCurl = () => {
-    const headers = Object.entries(event.headers)
-      .map(([key, value]) => `-H "${key}: ${value}"`)
-      .join(' \\\n  ')
-    
-    let bodyArg = ''
-    if (event.body) {
-      const bodyStr = typeof event.body === 'object' 
-        ? JSON.stringify(event.body)
-        : String(event.body)
-      bodyArg = ` \\\n  -d '${bodyStr}'`
+  const formatForwardBody = (body: string) => {
+    try {
+      return { language: "json", value: JSON.stringify(JSON.parse(body), null, 2) }
+    } catch {
+      return { language: "plaintext", value: body }
     }
-
-    const curl = `curl -X ${event.method} '${event.url}' \\\n  ${headers}${bodyArg}`
-    
-    navigator.clipboard.writeText(curl)
-    toast.success("Copied as cURL command")
   }
 
   const getPayloadSize = () => {
-    const size = new Blob([JSON.stringify(event)]).size
-    if (size < 1024) return `${size} B`
-    if (size < 1024 * 1024) return `${(size / 1024).toFixed(2)} KB`
-    return `${(size / (1024 * 1024)).toFixed(2)} MB`
+    return formatBytes(new Blob([JSON.stringify(event)]).size)
   }
 
+  const forwardText = event.forward ? formatResultBody(event.forward) : null
+  const forwardBody = forwardText ? formatForwardBody(forwardText) : null
+  const providerDetails = decodeProvider(event)
+
   return (
     <ScrollArea className="h-full">
       <div className="p-6 space-y-6">
@@ -106,11 +133,54 @@ export function MessageViewer({ event, onDelete }: MessageViewerProps) {
             <Badge variant="outline" className="text-xs">
               {getPayloadSize()}
             </Badge>
+            {event.response && (
+              <Badge
+                variant="outline"
+                className={`text-xs ${event.response.injected ? "border-red-500 text-red-600" : ""}`}
+                title="Response sent to the caller"
+              >
+                → {event.response.status}
+                {event.response.rule && ` · ${event.response.rule}`}
+                {event.response.injected === "failure" && " · injected failure"}
+                {event.response.injected === "timeout" && " · injected timeout"}
+                {event.response.delay !== undefined && ` · delayed ${event.response.delay} ms`}
+                {event.response.droppedHeaders && ` · left out invalid ${event.response.droppedHeaders.join(", ")}`}
+              </Badge>
+            )}
+            {event.signature && <SignatureBadge signature={event.signature} />}
+            {event.validation && <SchemaBadge validation={event.validation} />}
           </div>
           <div className="flex items-center gap-2">
-            <Button variant="ghost" size="sm" onClick={handleCopyCurl} title="Copy as cURL">
+            <Button variant="ghost" size="sm" onClick={handleToggleStar} title={event.starred ? "Unstar" : "Star"}>
+              <Star className={`h-4 w-4 ${event.starred ? "fill-yellow-400 text-yellow-500" : ""}`} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowReplay(!showReplay)}
+              className={showReplay ? "bg-accent" : ""}
+              title="Replay"
+            >
+              <RotateCcw className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowSnippet(!showSnippet)}
+              className={showSnippet ? "bg-accent" : ""}
+              title="Code snippets"
+            >
               <Terminal className="h-4 w-4" />
             </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowTypes(!showTypes)}
+              className={showTypes ? "bg-accent" : ""}
+              title="Generate types"
+            >
+              <Braces className="h-4 w-4" />
+            </Button>
             <Button variant="ghost" size="sm" onClick={handleExportJSON} title="Export as JSON">
               <Download className="h-4 w-4" />
             </Button>
@@ -128,8 +198,117 @@ export function MessageViewer({ event, onDelete }: MessageViewerProps) {
           <p className="text-xs text-muted-foreground">ID: {event.id}</p>
         </div>
 
+        <EventNote key={event.id} event={event} onUpdate={onUpdate} />
+
         <Separator />
 
+        {/* Provider Details */}
+        {providerDetails && (
+          <>
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <h3 className="text-sm font-semibold">Provider details</h3>
+                <Badge variant="outline" className="text-xs">{providerDetails.label}</Badge>
+              </div>
+              {providerDetails.summary && (
+                <p className="text-sm text-muted-foreground">{providerDetails.summary}</p>
+              )}
+              {[
+                { label: "Event type", value: providerDetails.eventType },
+                { label: "Resource", value: providerDetails.resourceId },
+                ...providerDetails.fields,
+              ].map(({ label, value }) =>
+                value ? (
+                  <div key={label} className="text-sm flex">
+                    <span className="font-medium text-muted-foreground min-w-[200px]">{label}:</span>
+                    <span className="font-mono flex-1 break-all">{value}</span>
+                  </div>
+                ) : null
+              )}
+            </div>
+            <Separator />
+          </>
+        )}
+
+        {/* Schema Validation */}
+        {event.validation && event.validation.status !== "valid" && (
+          <>
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Schema Validation</h3>
+              <p className="text-sm text-muted-foreground">
+                {event.validation.status === "invalid"
+                  ? `Does not match ${event.validation.schema}`
+                  : `${event.validation.schema} could not be used`}
+              </p>
+              {event.validation.errors.map((error, index) => (
+                <div key={index} className="text-sm flex">
+                  <span className="font-mono text-muted-foreground min-w-[200px] break-all pr-2">{error.path}</span>
+                  <span className="flex-1">{error.message}</span>
+                </div>
+              ))}
+            </div>
+            <Separator />
+          </>
+        )}
+
+        {/* Signature */}
+        {event.signature && (
+          <>
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold">Signature</h3>
+              {event.signature.reason && (
+                <p className="text-sm text-muted-foreground">{event.signature.reason}</p>
+              )}
+              {event.signature.expected && (
+                <div className="text-sm flex">
+                  <span className="font-medium text-muted-foreground min-w-[200px]">Expected:</span>
+                  <span className="font-mono flex-1 break-all">{event.signature.expected}</span>
+                </div>
+              )}
+              {event.signature.received && (
+                <div className="text-sm flex">
+                  <span className="font-medium text-muted-foreground min-w-[200px]">Received:</span>
+                  <span className="font-mono flex-1 break-all">{event.signature.received}</span>
+                </div>
+              )}
+            </div>
+            <Separator />
+          </>
+        )}
+
+        {/* Replay */}
+        {showReplay && (
+          <>
+            <div>
+              <h3 className="text-sm font-semibold mb-3">Replay</h3>
+              <ReplayPanel event={event} />
+            </div>
+            <Separator />
+          </>
+        )}
+
+        {/* Code Snippet */}
+        {showSnippet && (
+          <>
+            <div>
+              <h3 className="text-sm font-semibold mb-3">Code Snippet</h3>
+              <SnippetPanel event={event} />
+            </div>
+            <Separator />
+          </>
+        )}
+
+        {/* Generated Types */}
+        {showTypes && (
+          <>
+            <div>
+              <h3 className="text-sm font-semibold mb-3">Generate Types</h3>
+              <TypeGenerator key={event.id} event={event} />
+            </div>
+            <Separator />
+          </>
+        )}
+
         {/* Headers */}
         <div>
           <h3 className="text-sm font-semibold mb-3">Headers</h3>
@@ -168,41 +347,58 @@ export function MessageViewer({ event, onDelete }: MessageViewerProps) {
         )}
 
         {/* Body */}
-        <div>
-          <h3 className="text-sm font-semibold mb-3">Body</h3>
-          {event.body ? (
-            <div className="border">
-              <Editor
-                height="400px"
-                defaultLanguage={typeof event.body === "object" ? "json" : "plaintext"}
-                value={
-                  typeof event.body === "object"
-                    ? JSON.stringify(event.body, null, 2)
-                    : String(event.body)
-                }
-                options={{
-                  readOnly: true,
-                  minimap: { enabled: false },
-                  scrollBeyondLastLine: false,
-                  fontSize: 13,
-                  lineNumbers: "on",
-                  folding: true,
-                  wordWrap: "on",
-                  automaticLayout: true,
-                  contextmenu: true,
-                  find: {
-                    addExtraSpaceOnTop: false,
-                    autoFindInSelection: "never",
-                    seedSearchStringFromSelection: "never",
-                  },
-                }}
-                theme="vs"
-              />
+        <BodyViewer event={event} />
+
+        {/* Forwarded Response */}
+        {event.forward && (
+          <>
+            <Separator />
+            <div className="space-y-3">
+              <div className="flex items-center gap-3">
+                <h3 className="text-sm font-semibold">Forwarded Response</h3>
+                <Badge className={`${getStatusColor(event.forward.status)} text-white text-xs`}>
+                  {event.forward.status ?? "Failed"}
+                  {event.forward.statusText && ` ${event.forward.statusText}`}
+                </Badge>
+                <Badge variant="outline" className="text-xs">
+                  {event.forward.duration} ms
+                </Badge>
+              </div>
+              <code className="text-xs font-mono bg-muted px-2 py-1 block break-all">
+                {event.forward.url}
+              </code>
+              {event.forward.error && (
+                <p className="text-sm text-destructive">{event.forward.error}</p>
+              )}
+              {Object.keys(event.forward.headers).length > 0 && (
+                <div className="space-y-2">
+                  {Object.entries(event.forward.headers).map(([key, value]) => (
+                    <div key={key} className="text-sm flex">
+                      <span className="font-medium text-muted-foreground min-w-[200px]">{key}:</span>
+                      <span className="font-mono flex-1">{value}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {event.forward.bodyTruncated && (
+                <p className="text-xs text-muted-foreground">
+                  Body cut off at {formatBytes(MAX_FORWARD_BODY_BYTES)}, so it was not passed back to the sender
+                </p>
+              )}
+              {forwardBody && (
+                <div className="border">
+                  <Editor
+                    height="240px"
+                    language={forwardBody.language}
+                    value={forwardBody.value}
+                    options={EDITOR_OPTIONS}
+                    theme="vs"
+                  />
+                </div>
+              )}
             </div>
-          ) : (
-            <p className="text-sm text-muted-foreground">No body</p>
-          )}
-        </div>
+          </>
+        )}
       </div>
     </ScrollArea>
   )
@@ -0,0 +1,128 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { type MultipartPart } from "@/lib/multipart"
+import { formatBytes } from "@/lib/body"
+import { Download, Eye, EyeOff, FileText, Paperclip } from "lucide-react"
+import { toast } from "sonner"
+
+type PartsViewerProps = {
+  parts: MultipartPart[]
+  bytes: Uint8Array<ArrayBuffer>
+}
+
+const isTextType = (contentType: string) =>
+  contentType.startsWith("text/") || /json|xml|javascript|csv/.test(contentType)
+
+const getContent = (part: MultipartPart, bytes: Uint8Array<ArrayBuffer>) =>
+  bytes.slice(part.offset, part.offset + part.size)
+
+function PartPreview({ part, bytes }: { part: MultipartPart; bytes: Uint8Array<ArrayBuffer> }) {
+  const content = useMemo(() => getContent(part, bytes), [part, bytes])
+  const [imageUrl, setImageUrl] = useState<string | null>(null)
+  const isImage = part.contentType.startsWith("image/")
+
+  useEffect(() => {
+    if (!isImage) return
+    const url = URL.createObjectURL(new Blob([content], { type: part.contentType }))
+    setImageUrl(url)
+    return () => URL.revokeObjectURL(url)
+  }, [content, isImage, part.contentType])
+
+  if (isImage) {
+    return imageUrl ? (
+      <img src={imageUrl} alt={part.filename || part.name} className="max-h-[320px] max-w-full border" />
+    ) : null
+  }
+
+  if (part.value !== undefined || isTextType(part.contentType)) {
+    return (
+      <pre className="text-xs font-mono whitespace-pre-wrap break-all max-h-[240px] overflow-auto border bg-background p-2">
+        {part.value ?? new TextDecoder().decode(content)}
+      </pre>
+    )
+  }
+
+  return <p className="text-xs text-muted-foreground">No preview available for {part.contentType}</p>
+}
+
+export function PartsViewer({ parts, bytes }: PartsViewerProps) {
+  const [previewIndex, setPreviewIndex] = useState<number | null>(null)
+
+  const handleDownload = (part: MultipartPart) => {
+    const blob = new Blob([getContent(part, bytes)], { type: part.contentType })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement("a")
+    a.href = url
+    a.download = part.filename || `${part.name || "part"}.bin`
+    a.click()
+    URL.revokeObjectURL(url)
+    toast.success(`Downloaded ${a.download}`)
+  }
+
+  return (
+    <div>
+      <h3 className="text-sm font-semibold mb-3">Form Parts ({parts.length})</h3>
+      <div className="border text-sm">
+        <div className="grid grid-cols-[1fr_1fr_1fr_80px_72px] gap-2 px-3 py-2 bg-muted font-medium text-xs text-muted-foreground">
+          <span>Name</span>
+          <span>Filename / Value</span>
+          <span>Content Type</span>
+          <span>Size</span>
+          <span />
+        </div>
+        {parts.map((part, index) => (
+          <div key={`${part.name}-${index}`} className="border-t">
+            <div className="grid grid-cols-[1fr_1fr_1fr_80px_72px] gap-2 px-3 py-2 items-center">
+              <span className="font-mono text-xs truncate">{part.name}</span>
+              <span className="font-mono text-xs truncate flex items-center gap-1">
+                {part.filename !== undefined ? (
+                  <>
+                    <Paperclip className="h-3 w-3 flex-shrink-0" />
+                    {part.filename || "(unnamed file)"}
+                  </>
+                ) : (
+                  <>
+                    <FileText className="h-3 w-3 flex-shrink-0" />
+                    {part.value}
+                  </>
+                )}
+              </span>
+              <Badge variant="outline" className="text-xs font-mono truncate">
+                {part.contentType}
+              </Badge>
+              <span className="text-xs text-muted-foreground">{formatBytes(part.size)}</span>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => setPreviewIndex(previewIndex === index ? null : index)}
+                  title="Preview"
+                >
+                  {previewIndex === index ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => handleDownload(part)}
+                  title="Download"
+                >
+                  <Download className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+            {previewIndex === index && (
+              <div className="px-3 pb-3">
+                <PartPreview part={part} bytes={bytes} />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+"use client"
+
+import { useMemo, useRef, useState } from "react"
+import { Input } from "@/components/ui/input"
+import { getQuerySuggestions, type QuerySuggestion, type QueryVocabulary } from "@/lib/event-query"
+import { Search } from "lucide-react"
+
+const SYNTAX_HELP = [
+  "method:POST  status:4xx  status>=500",
+  "header:x-github-event=push  body.action=opened  $.data.id=evt_*",
+  "provider:github  type:pull_request.*  query.page=2  path:/stripe/*",
+  "is:starred  signature:invalid",
+  "after:10m  before:2024-01-01",
+  "-negate  NOT  OR  (group)  \"quoted phrase\"",
+].join("\n")
+
+type QueryInputProps = {
+  value: string
+  onChange: (value: string) => void
+  vocabulary: QueryVocabulary
+}
+
+export function QueryInput({ value, onChange, vocabulary }: QueryInputProps) {
+  const [cursor, setCursor] = useState(0)
+  const [open, setOpen] = useState(false)
+  const [activeIndex, setActiveIndex] = useState(0)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const suggestions = useMemo(() => getQuerySuggestions(value, cursor, vocabulary), [value, cursor, vocabulary])
+  const showSuggestions = open && suggestions.items.length > 0
+
+  const updateCursor = () => {
+    setCursor(inputRef.current?.selectionStart ?? value.length)
+  }
+
+  const accept = (suggestion: QuerySuggestion) => {
+    const next = value.slice(0, suggestions.from) + suggestion.value + value.slice(suggestions.to)
+    const position = suggestions.from + suggestion.value.length
+    onChange(next)
+    setCursor(position)
+    setActiveIndex(0)
+    // Keep completing after a field name, e.g. "header:" then the header names
+    setOpen(/[:.=]$/.test(suggestion.value))
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(position, position))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions) return
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault()
+      const offset = e.key === "ArrowDown" ? 1 : -1
+      setActiveIndex((index) => (index + offset + suggestions.items.length) % suggestions.items.length)
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault()
+      accept(suggestions.items[Math.min(activeIndex, suggestions.items.length - 1)])
+    } else if (e.key === "Escape") {
+      setOpen(false)
+    }
+  }
+
+  return (
+    <div className="relative flex-1">
+      <Search className="absolute left-2 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+      <Input
+        ref={inputRef}
+        type="text"
+        placeholder="Search events..."
+        title={SYNTAX_HELP}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value)
+          setCursor(e.target.selectionStart ?? e.target.value.length)
+          setActiveIndex(0)
+          setOpen(true)
+        }}
+        onKeyDown={handleKeyDown}
+        onKeyUp={(e) => {
+          if (e.key === "ArrowLeft" || e.key === "ArrowRight" || e.key === "Home" || e.key === "End") updateCursor()
+        }}
+        onClick={updateCursor}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        className="pl-8 font-mono text-xs"
+        spellCheck={false}
+        autoComplete="off"
+      />
+
+      {showSuggestions && (
+        <div className="absolute left-0 right-0 z-20 mt-1 border bg-background shadow-md text-xs">
+          {suggestions.items.map((suggestion, index) => (
+            <button
+              key={suggestion.value}
+              className={`flex w-full items-center justify-between gap-2 px-2 py-1.5 text-left hover:bg-accent ${index === activeIndex ? "bg-accent" : ""}`}
+              // Keep focus in the input so the dropdown does not close first
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => accept(suggestion)}
+            >
+              <span className="font-mono truncate">{suggestion.value}</span>
+              {suggestion.description && (
+                <span className="text-muted-foreground truncate">{suggestion.description}</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
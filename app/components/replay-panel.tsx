@@ -0,0 +1,177 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Separator } from "@/components/ui/separator"
+import { getStatusColor } from "@/lib/utils"
+import { formatResultBody, serializeBody } from "@/lib/forward"
+import { type WebhookEvent } from "@/app/actions/webhook"
+import { getReplayHistory, replayWebhookEvent, type ReplayAttempt } from "@/app/actions/replay"
+import { getWebhookSettings } from "@/app/actions/settings"
+import { Loader2, Send } from "lucide-react"
+import { toast } from "sonner"
+
+type ReplayPanelProps = {
+  event: WebhookEvent
+}
+
+export function ReplayPanel({ event }: ReplayPanelProps) {
+  const [url, setUrl] = useState("")
+  const [headers, setHeaders] = useState("")
+  const [body, setBody] = useState("")
+  const [history, setHistory] = useState<ReplayAttempt[]>([])
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [sending, setSending] = useState(false)
+
+  const isBinary = event.bodyEncoding === "base64"
+  const originalBody = isBinary
+    ? ""
+    : (event.rawBody ?? serializeBody(event.body, String(event.headers["content-type"] || ""))) || ""
+
+  useEffect(() => {
+    setHeaders(JSON.stringify(event.headers, null, 2))
+    setBody(originalBody)
+    getReplayHistory(event.uuid, event.id).then(setHistory)
+  }, [event, originalBody])
+
+  // Default the target to the endpoint's forward URL when one is configured
+  useEffect(() => {
+    getWebhookSettings(event.uuid).then((settings) => {
+      if (settings?.forwardUrl) {
+        setUrl((current) => current || settings.forwardUrl!)
+      }
+    })
+  }, [event.uuid])
+
+  const handleReplay = async () => {
+    let parsedHeaders: Record<string, string>
+    try {
+      parsedHeaders = JSON.parse(headers || "{}")
+    } catch {
+      toast.error("Headers must be a JSON object")
+      return
+    }
+
+    try {
+      new URL(url)
+    } catch {
+      toast.error("Enter a valid URL to replay to")
+      return
+    }
+
+    setSending(true)
+    const attempt = await replayWebhookEvent(event.uuid, event.id, {
+      url,
+      headers: parsedHeaders,
+      // Leave the body out when unchanged so the original bytes are replayed
+      body: body === originalBody ? undefined : body || null,
+    })
+    setSending(false)
+
+    if (!attempt) {
+      toast.error("Failed to replay webhook")
+      return
+    }
+
+    setHistory((prev) => [attempt, ...prev])
+    setExpandedId(attempt.id)
+    if (attempt.response.error) {
+      toast.error(`Replay failed: ${attempt.response.error}`)
+    } else {
+      toast.success(`Replayed: ${attempt.response.status} in ${attempt.response.duration} ms`)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="replay-url">Target URL</Label>
+        <div className="flex gap-2">
+          <Input
+            id="replay-url"
+            type="url"
+            placeholder="http://localhost:3000/api/webhooks"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            className="font-mono"
+          />
+          <Button onClick={handleReplay} disabled={sending || !url}>
+            {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            Replay
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Sends {event.method} with the original query parameters appended
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="replay-headers">Headers (JSON)</Label>
+          <textarea
+            id="replay-headers"
+            value={headers}
+            onChange={(e) => setHeaders(e.target.value)}
+            className="w-full min-h-[160px] p-3 border bg-background font-mono text-xs"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="replay-body">Body</Label>
+          <textarea
+            id="replay-body"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            disabled={isBinary}
+            placeholder={isBinary ? `Binary body (${event.bodySize} bytes) is replayed unchanged` : undefined}
+            className="w-full min-h-[160px] p-3 border bg-background font-mono text-xs"
+          />
+        </div>
+      </div>
+
+      {history.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Replay History</h4>
+          <div className="border">
+            {history.map((attempt, index) => (
+              <div key={attempt.id}>
+                <div
+                  className="flex items-center gap-3 p-2 text-sm cursor-pointer hover:bg-accent"
+                  onClick={() => setExpandedId(expandedId === attempt.id ? null : attempt.id)}
+                >
+                  <Badge className={`${getStatusColor(attempt.response.status)} text-white text-xs`}>
+                    {attempt.response.status ?? "Failed"}
+                  </Badge>
+                  <span className="font-mono text-xs truncate flex-1">{attempt.request.url}</span>
+                  <span className="text-xs text-muted-foreground">{attempt.response.duration} ms</span>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(attempt.timestamp).toLocaleTimeString()}
+                  </span>
+                </div>
+                {expandedId === attempt.id && (
+                  <div className="p-3 space-y-2 bg-muted/50">
+                    {attempt.response.error && (
+                      <p className="text-sm text-destructive">{attempt.response.error}</p>
+                    )}
+                    {Object.entries(attempt.response.headers).map(([key, value]) => (
+                      <div key={key} className="text-xs flex">
+                        <span className="font-medium text-muted-foreground min-w-[200px]">{key}:</span>
+                        <span className="font-mono flex-1 break-all">{value}</span>
+                      </div>
+                    ))}
+                    <pre className="text-xs font-mono whitespace-pre-wrap break-all max-h-[240px] overflow-auto border bg-background p-2">
+                      {formatResultBody(attempt.response) ?? "No body"}
+                    </pre>
+                  </div>
+                )}
+                {index < history.length - 1 && <Separator />}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,227 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  RULE_FIELDS,
+  RULE_OPERATORS,
+  checkRulePattern,
+  type ResponseRule,
+  type RuleCondition,
+  type RuleField,
+  type RuleOperator,
+} from "@/lib/rules"
+import { ArrowDown, ArrowUp, Plus, Trash2, X } from "lucide-react"
+import { v4 as uuidv4 } from "uuid"
+
+type ResponseRulesEditorProps = {
+  rules: ResponseRule[]
+  onChange: (rules: ResponseRule[]) => void
+}
+
+const selectClassName = "h-9 border bg-background px-2 text-sm"
+
+// Headers are edited as "Name: value" lines to keep each rule compact
+const formatHeaders = (headers: Record<string, string>) =>
+  Object.entries(headers).map(([key, value]) => `${key}: ${value}`).join("\n")
+
+const parseHeaders = (text: string) => {
+  const headers: Record<string, string> = {}
+  for (const line of text.split("\n")) {
+    const colon = line.indexOf(":")
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim()] = line.slice(colon + 1).trim()
+    }
+  }
+  return headers
+}
+
+export function ResponseRulesEditor({ rules, onChange }: ResponseRulesEditorProps) {
+  const updateRule = (id: string, changes: Partial<ResponseRule>) => {
+    onChange(rules.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)))
+  }
+
+  const updateCondition = (rule: ResponseRule, index: number, changes: Partial<RuleCondition>) => {
+    updateRule(rule.id, {
+      conditions: rule.conditions.map((condition, i) => (i === index ? { ...condition, ...changes } : condition)),
+    })
+  }
+
+  const addRule = () => {
+    onChange([
+      ...rules,
+      {
+        id: uuidv4(),
+        name: `Rule ${rules.length + 1}`,
+        enabled: true,
+        conditions: [{ field: "method", operator: "equals", value: "POST" }],
+        responseStatus: 200,
+        responseBody: '{"success": true}',
+        responseHeaders: {},
+      },
+    ])
+  }
+
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= rules.length) return
+    const next = [...rules]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-4">
+      {rules.map((rule, index) => (
+        <div key={rule.id} className="border p-4 space-y-3">
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={rule.enabled}
+              onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+              title="Enabled"
+            />
+            <Input
+              value={rule.name}
+              onChange={(e) => updateRule(rule.id, { name: e.target.value })}
+              className="flex-1"
+            />
+            <Button variant="ghost" size="sm" onClick={() => moveRule(index, -1)} disabled={index === 0}>
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => moveRule(index, 1)}
+              disabled={index === rules.length - 1}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(rules.filter((r) => r.id !== rule.id))}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">When all of these match</Label>
+            {rule.conditions.map((condition, conditionIndex) => {
+              const field = RULE_FIELDS.find((f) => f.value === condition.field)
+              const needsValue = condition.operator !== "exists" && condition.operator !== "not_exists"
+              const patternError = condition.operator === "matches" ? checkRulePattern(condition.value || "") : null
+              return (
+                <div key={conditionIndex} className="space-y-1">
+                  <div className="flex gap-2">
+                    <select
+                      value={condition.field}
+                      onChange={(e) => updateCondition(rule, conditionIndex, { field: e.target.value as RuleField })}
+                      className={selectClassName}
+                    >
+                      {RULE_FIELDS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    {field?.keyPlaceholder && (
+                      <Input
+                        placeholder={field.keyPlaceholder}
+                        value={condition.key || ""}
+                        onChange={(e) => updateCondition(rule, conditionIndex, { key: e.target.value })}
+                        className="flex-1 font-mono"
+                      />
+                    )}
+                    <select
+                      value={condition.operator}
+                      onChange={(e) =>
+                        updateCondition(rule, conditionIndex, { operator: e.target.value as RuleOperator })
+                      }
+                      className={selectClassName}
+                    >
+                      {RULE_OPERATORS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    {needsValue && (
+                      <Input
+                        placeholder="Value"
+                        value={condition.value || ""}
+                        onChange={(e) => updateCondition(rule, conditionIndex, { value: e.target.value })}
+                        className="flex-1 font-mono"
+                      />
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        updateRule(rule.id, {
+                          conditions: rule.conditions.filter((_, i) => i !== conditionIndex),
+                        })
+                      }
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {patternError && <p className="text-xs text-destructive">{patternError}</p>}
+                </div>
+              )
+            })}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                updateRule(rule.id, {
+                  conditions: [...rule.conditions, { field: "header", operator: "equals", key: "", value: "" }],
+                })
+              }
+            >
+              <Plus className="h-4 w-4" />
+              Add condition
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-[120px_1fr] gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Status</Label>
+              <Input
+                type="number"
+                value={rule.responseStatus}
+                onChange={(e) => updateRule(rule.id, { responseStatus: parseInt(e.target.value) || 200 })}
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-muted-foreground">Headers (one per line)</Label>
+              <textarea
+                defaultValue={formatHeaders(rule.responseHeaders)}
+                onBlur={(e) => updateRule(rule.id, { responseHeaders: parseHeaders(e.target.value) })}
+                className="w-full min-h-[36px] p-2 border bg-background font-mono text-xs"
+                placeholder="X-Custom-Header: value"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Body (supports {"{{templates}}"})</Label>
+            <textarea
+              value={rule.responseBody}
+              onChange={(e) => updateRule(rule.id, { responseBody: e.target.value })}
+              className="w-full min-h-[100px] p-3 border bg-background font-mono text-sm"
+            />
+          </div>
+        </div>
+      ))}
+
+      <Button variant="outline" onClick={addRule}>
+        <Plus className="h-4 w-4" />
+        Add rule
+      </Button>
+    </div>
+  )
+}
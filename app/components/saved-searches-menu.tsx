@@ -0,0 +1,117 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { deleteSavedSearch, getSavedSearches, saveSearch, type SavedSearch } from "@/app/actions/saved-searches"
+import { Bookmark, BookmarkPlus, X } from "lucide-react"
+import { toast } from "sonner"
+
+type SavedSearchesMenuProps = {
+  uuid: string
+  query: string
+  onApply: (query: string) => void
+}
+
+export function SavedSearchesMenu({ uuid, query, onApply }: SavedSearchesMenuProps) {
+  const [open, setOpen] = useState(false)
+  const [searches, setSearches] = useState<SavedSearch[]>([])
+  const [name, setName] = useState("")
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    getSavedSearches(uuid).then(setSearches)
+  }, [uuid])
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!open) return
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) {
+        setOpen(false)
+      }
+    }
+    document.addEventListener("mousedown", handleClick)
+    return () => document.removeEventListener("mousedown", handleClick)
+  }, [open])
+
+  const handleSave = async () => {
+    const saved = await saveSearch(uuid, name || query, query)
+    if (!saved) {
+      toast.error("Failed to save search")
+      return
+    }
+    setSearches((prev) => [...prev, saved])
+    setName("")
+    toast.success(`Saved "${saved.name}"`)
+  }
+
+  const handleDelete = async (search: SavedSearch) => {
+    if (await deleteSavedSearch(uuid, search.id)) {
+      setSearches((prev) => prev.filter((item) => item.id !== search.id))
+    }
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <Button
+        variant="outline"
+        size="sm"
+        className={`h-9 ${open ? "bg-accent" : ""}`}
+        onClick={() => setOpen(!open)}
+        title="Saved searches"
+      >
+        <Bookmark className={`h-4 w-4 ${searches.some((search) => search.query === query.trim()) ? "fill-current" : ""}`} />
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 z-20 mt-1 w-72 border bg-background shadow-md text-sm">
+          <div className="p-2 text-xs font-medium text-muted-foreground">Saved searches</div>
+          {searches.length === 0 && (
+            <p className="px-2 pb-2 text-xs text-muted-foreground">Nothing saved for this endpoint yet</p>
+          )}
+          {searches.map((search) => (
+            <div key={search.id} className="group flex items-center gap-1 hover:bg-accent">
+              <button
+                className="flex-1 min-w-0 p-2 text-left"
+                onClick={() => {
+                  onApply(search.query)
+                  setOpen(false)
+                }}
+                title={search.query}
+              >
+                <div className="truncate">{search.name}</div>
+                {search.name !== search.query && (
+                  <div className="truncate font-mono text-xs text-muted-foreground">{search.query}</div>
+                )}
+              </button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 w-6 p-0 mr-1 opacity-0 group-hover:opacity-100 hover:text-destructive"
+                onClick={() => handleDelete(search)}
+                title="Delete saved search"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          {query.trim() && (
+            <div className="flex gap-1 p-2 border-t">
+              <Input
+                placeholder="Name this search"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleSave()}
+                className="h-8 text-xs"
+              />
+              <Button variant="outline" size="sm" className="h-8" onClick={handleSave} title="Save current search">
+                <BookmarkPlus className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,251 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Separator } from "@/components/ui/separator"
+import { getStatusColor } from "@/lib/utils"
+import { checkCron, getNextCronRuns } from "@/lib/cron"
+import { type OutboundRequest } from "@/lib/outbound"
+import { type JobRun, type JobSchedule, type ScheduledJob } from "@/lib/scheduler"
+import {
+  createScheduledJob,
+  deleteScheduledJob,
+  getScheduledJobRuns,
+  getScheduledJobs,
+  runScheduledJob,
+  setScheduledJobPaused,
+} from "@/app/actions/schedules"
+import { CalendarClock, Pause, Play, Trash2, Zap } from "lucide-react"
+import { toast } from "sonner"
+
+// Pick up runs made by the cron sweep while the panel is open
+const REFRESH_INTERVAL_MS = 30_000
+
+type ScheduledJobsProps = {
+  uuid: string
+  // The request currently composed in the Send panel
+  buildRequest: () => OutboundRequest | null
+}
+
+const describeSchedule = (schedule: JobSchedule) =>
+  schedule.type === "cron" ? `cron ${schedule.expression} (UTC)` : `once at ${new Date(schedule.runAt).toLocaleString()}`
+
+const formatRelative = (timestamp: number) => formatDistanceToNow(new Date(timestamp), { addSuffix: true })
+
+function RunStatus({ run }: { run: JobRun }) {
+  return (
+    <Badge className={`${getStatusColor(run.status)} text-white text-xs`} title={run.error}>
+      {run.status ?? "Failed"}
+    </Badge>
+  )
+}
+
+export function ScheduledJobs({ uuid, buildRequest }: ScheduledJobsProps) {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([])
+  const [showForm, setShowForm] = useState(false)
+  const [name, setName] = useState("")
+  const [type, setType] = useState<JobSchedule["type"]>("cron")
+  const [expression, setExpression] = useState("*/5 * * * *")
+  const [runAt, setRunAt] = useState("")
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [runs, setRuns] = useState<JobRun[]>([])
+
+  useEffect(() => {
+    const load = () => getScheduledJobs(uuid).then(setJobs)
+    load()
+    const interval = setInterval(load, REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [uuid])
+
+  // Reload the open job's history whenever it has run again
+  const expandedLastRun = jobs.find((job) => job.id === expandedId)?.lastRun?.id
+  useEffect(() => {
+    if (expandedId) {
+      getScheduledJobRuns(uuid, expandedId).then(setRuns)
+    }
+  }, [uuid, expandedId, expandedLastRun])
+
+  const cronError = type === "cron" ? checkCron(expression) : null
+  const preview = type === "cron" && !cronError ? getNextCronRuns(expression, Date.now(), 3) : []
+
+  const replaceJob = (job: ScheduledJob) => setJobs((prev) => prev.map((item) => (item.id === job.id ? job : item)))
+
+  const handleCreate = async () => {
+    const request = buildRequest()
+    if (!request) return
+
+    const schedule: JobSchedule =
+      type === "cron" ? { type, expression: expression.trim() } : { type, runAt: new Date(runAt).getTime() }
+    const result = await createScheduledJob(uuid, name, request, schedule)
+    const { job } = result
+    if (!job) {
+      toast.error(result.error || "Failed to create schedule")
+      return
+    }
+
+    setJobs((prev) => [...prev, job])
+    setShowForm(false)
+    setName("")
+    toast.success(job.nextRunAt ? `Scheduled "${job.name}", first run ${formatRelative(job.nextRunAt)}` : `Scheduled "${job.name}"`)
+  }
+
+  const handleTogglePaused = async (job: ScheduledJob) => {
+    const updated = await setScheduledJobPaused(uuid, job.id, !job.paused)
+    if (updated) {
+      replaceJob(updated)
+    } else {
+      toast.error("Failed to update schedule")
+    }
+  }
+
+  const handleRunNow = async (job: ScheduledJob) => {
+    const result = await runScheduledJob(uuid, job.id)
+    if (!result) {
+      toast.error("Failed to run job")
+      return
+    }
+    replaceJob(result.job)
+    setExpandedId(job.id)
+    if (result.run.error) {
+      toast.error(`Run failed: ${result.run.error}`)
+    } else {
+      toast.success(`Ran "${job.name}": ${result.run.status} in ${result.run.duration} ms`)
+    }
+  }
+
+  const handleDelete = async (job: ScheduledJob) => {
+    if (!confirm(`Delete the schedule "${job.name}"?`)) return
+    if (await deleteScheduledJob(uuid, job.id)) {
+      setJobs((prev) => prev.filter((item) => item.id !== job.id))
+    } else {
+      toast.error("Failed to delete schedule")
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold">Schedules</h3>
+        <Button variant="outline" size="sm" onClick={() => setShowForm(!showForm)}>
+          <CalendarClock className="h-4 w-4 mr-1" />
+          Schedule this request
+        </Button>
+      </div>
+
+      {showForm && (
+        <div className="space-y-3 border p-3">
+          <Input placeholder="Name, e.g. Stripe heartbeat" value={name} onChange={(e) => setName(e.target.value)} />
+          <div className="flex gap-2">
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as JobSchedule["type"])}
+              className="h-9 border bg-background px-2 text-sm"
+            >
+              <option value="cron">Recurring (cron)</option>
+              <option value="once">Once</option>
+            </select>
+            {type === "cron" ? (
+              <Input
+                placeholder="*/5 * * * *"
+                value={expression}
+                onChange={(e) => setExpression(e.target.value)}
+                className="font-mono"
+              />
+            ) : (
+              <Input type="datetime-local" value={runAt} onChange={(e) => setRunAt(e.target.value)} />
+            )}
+            <Button onClick={handleCreate} disabled={Boolean(cronError) || (type === "once" && !runAt)}>
+              Create
+            </Button>
+          </div>
+          {cronError ? (
+            <p className="text-xs text-destructive">{cronError}</p>
+          ) : type === "cron" ? (
+            <p className="text-xs text-muted-foreground">
+              minute hour day-of-month month day-of-week, in UTC; @hourly and @daily work too.
+              {preview.length > 0
+                ? ` Next: ${preview.map((time) => new Date(time).toLocaleString()).join(", ")}`
+                : " This expression never matches a date."}
+            </p>
+          ) : null}
+          <p className="text-xs text-muted-foreground">
+            Each run sends the request as composed above, signed afresh; the signing secret is stored with the schedule
+          </p>
+        </div>
+      )}
+
+      {jobs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No scheduled requests</p>
+      ) : (
+        <div className="border">
+          {jobs.map((job, index) => (
+            <div key={job.id}>
+              <div
+                className="flex items-center gap-3 p-2 text-sm cursor-pointer hover:bg-accent"
+                onClick={() => setExpandedId(expandedId === job.id ? null : job.id)}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{job.name}</span>
+                    {job.paused && <Badge variant="outline" className="text-xs">Paused</Badge>}
+                    {!job.paused && job.nextRunAt === null && (
+                      <Badge variant="outline" className="text-xs">Finished</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {job.request.method} {job.request.url} · {describeSchedule(job.schedule)}
+                  </p>
+                </div>
+                {job.lastRun && <RunStatus run={job.lastRun} />}
+                {!job.paused && job.nextRunAt !== null && (
+                  <span className="text-xs text-muted-foreground" title={new Date(job.nextRunAt).toLocaleString()}>
+                    next {formatRelative(job.nextRunAt)}
+                  </span>
+                )}
+                <div className="flex items-center" onClick={(e) => e.stopPropagation()}>
+                  <Button variant="ghost" size="sm" onClick={() => handleRunNow(job)} title="Run now">
+                    <Zap className="h-4 w-4" />
+                  </Button>
+                  {job.nextRunAt !== null && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleTogglePaused(job)}
+                      title={job.paused ? "Resume" : "Pause"}
+                    >
+                      {job.paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(job)} title="Delete">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              {expandedId === job.id && (
+                <div className="p-3 space-y-1 bg-muted/50">
+                  {runs.length === 0 ? (
+                    <p className="text-xs text-muted-foreground">Not run yet</p>
+                  ) : (
+                    runs.map((run) => (
+                      <div key={run.id} className="flex items-center gap-3 text-xs">
+                        <RunStatus run={run} />
+                        <span className="text-muted-foreground">{run.duration} ms</span>
+                        <span className="text-muted-foreground">{new Date(run.timestamp).toLocaleString()}</span>
+                        {run.manual && <Badge variant="outline" className="text-xs">manual</Badge>}
+                        {run.error && <span className="text-destructive truncate">{run.error}</span>}
+                      </div>
+                    ))
+                  )}
+                </div>
+              )}
+              {index < jobs.length - 1 && <Separator />}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
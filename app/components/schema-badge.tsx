@@ -0,0 +1,47 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { type SchemaValidation } from "@/lib/schema-validation"
+import { FileCheck, FileWarning, FileX } from "lucide-react"
+
+type SchemaBadgeProps = {
+  validation: SchemaValidation
+}
+
+export const getSchemaLabel = (validation: SchemaValidation) => {
+  switch (validation.status) {
+    case "valid":
+      return `Matches ${validation.schema}`
+    case "invalid":
+      return `${validation.errors.length} ${validation.errors.length === 1 ? "error" : "errors"} against ${validation.schema}`
+    default:
+      return `${validation.schema} could not be used`
+  }
+}
+
+export function SchemaIcon({ validation, className = "h-3 w-3" }: SchemaBadgeProps & { className?: string }) {
+  switch (validation.status) {
+    case "valid":
+      return <FileCheck className={`${className} text-green-600`} />
+    case "invalid":
+      return <FileX className={`${className} text-red-500`} />
+    default:
+      return <FileWarning className={`${className} text-yellow-600`} />
+  }
+}
+
+export function SchemaBadge({ validation }: SchemaBadgeProps) {
+  const color =
+    validation.status === "valid"
+      ? "border-green-600 text-green-700"
+      : validation.status === "invalid"
+        ? "border-red-500 text-red-600"
+        : "border-yellow-500 text-yellow-600"
+
+  return (
+    <Badge variant="outline" className={`text-xs ${color}`}>
+      <SchemaIcon validation={validation} />
+      {validation.status === "valid" ? "Schema valid" : validation.status === "invalid" ? "Schema invalid" : "Schema error"}
+    </Badge>
+  )
+}
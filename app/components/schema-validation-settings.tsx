@@ -0,0 +1,86 @@
+"use client"
+
+import { BUNDLED_SCHEMAS, checkSchema, type SchemaValidationSettings as ValidationSettings } from "@/lib/schema-validation"
+import Editor from "@monaco-editor/react"
+
+const SCHEMA_PLACEHOLDER = JSON.stringify(
+  {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    type: "object",
+    required: ["type", "data"],
+    properties: {
+      type: { type: "string" },
+      data: { type: "object" },
+    },
+  },
+  null,
+  2
+)
+
+type SchemaValidationSettingsProps = {
+  validation: ValidationSettings
+  onChange: (validation: ValidationSettings) => void
+}
+
+export function SchemaValidationSettings({ validation, onChange }: SchemaValidationSettingsProps) {
+  const update = (changes: Partial<ValidationSettings>) => onChange({ ...validation, ...changes })
+  const schemaError = validation.source === "custom" && validation.schema?.trim() ? checkSchema(validation.schema) : null
+  const bundled = BUNDLED_SCHEMAS.find((item) => item.id === validation.source)
+
+  return (
+    <div className="space-y-3">
+      <select
+        value={validation.source}
+        onChange={(e) => {
+          const source = e.target.value
+          // Start a custom schema from the bundled one that was selected, if any
+          const schema = source === "custom" && !validation.schema?.trim()
+            ? bundled ? JSON.stringify(bundled.schema, null, 2) : SCHEMA_PLACEHOLDER
+            : validation.schema
+          update({ source, schema })
+        }}
+        className="h-9 border bg-background px-2 text-sm"
+      >
+        <option value="">No validation</option>
+        <option value="custom">Custom JSON Schema</option>
+        {BUNDLED_SCHEMAS.map((item) => (
+          <option key={item.id} value={item.id}>{item.label}</option>
+        ))}
+      </select>
+
+      {validation.source === "custom" && (
+        <div className="space-y-1">
+          <div className="border">
+            <Editor
+              height="240px"
+              language="json"
+              value={validation.schema || ""}
+              onChange={(value) => update({ schema: value ?? "" })}
+              options={{ minimap: { enabled: false }, scrollBeyondLastLine: false, fontSize: 13, automaticLayout: true }}
+              theme="vs"
+            />
+          </div>
+          {schemaError && <p className="text-xs text-destructive">{schemaError}</p>}
+        </div>
+      )}
+
+      {bundled && (
+        <details className="text-xs text-muted-foreground">
+          <summary className="cursor-pointer">View schema</summary>
+          <pre className="mt-2 max-h-60 overflow-auto bg-muted p-2 font-mono">{JSON.stringify(bundled.schema, null, 2)}</pre>
+        </details>
+      )}
+
+      {validation.source && (
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={validation.rejectInvalid}
+            onChange={(e) => update({ rejectInvalid: e.target.checked })}
+          />
+          Respond 400 with the errors when a payload does not match
+        </label>
+      )}
+    </div>
+  )
+}
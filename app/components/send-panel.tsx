@@ -0,0 +1,355 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Separator } from "@/components/ui/separator"
+import { getStatusColor } from "@/lib/utils"
+import { EDITOR_OPTIONS } from "@/lib/editor"
+import { SEND_TEMPLATES, renderTemplate } from "@/lib/send-templates"
+import { formatResultBody } from "@/lib/forward"
+import { type OutboundRequest } from "@/lib/outbound"
+import { SIGNATURE_PROVIDERS, type SignatureProvider, type SigningSecrets } from "@/lib/signatures"
+import { clearSendHistory, getSendHistory, sendOutboundRequest, type OutboundSend } from "@/app/actions/outbound"
+import { getWebhookSettings } from "@/app/actions/settings"
+import { ScheduledJobs } from "./scheduled-jobs"
+import { Loader2, Send, X } from "lucide-react"
+import Editor from "@monaco-editor/react"
+import { toast } from "sonner"
+
+const METHODS = ["POST", "PUT", "PATCH", "DELETE", "GET"]
+
+const DEFAULT_HEADERS = JSON.stringify({ "content-type": "application/json" }, null, 2)
+
+type SendPanelProps = {
+  uuid: string
+  onClose: () => void
+}
+
+// Discord receivers verify with the public key, so signing takes the private seed instead
+const getSecretLabel = (provider: SignatureProvider) =>
+  provider === "discord"
+    ? "Ed25519 private key seed (hex)"
+    : SIGNATURE_PROVIDERS.find((item) => item.id === provider)!.secretLabel
+
+export function SendPanel({ uuid, onClose }: SendPanelProps) {
+  const [templateId, setTemplateId] = useState("")
+  const [method, setMethod] = useState("POST")
+  const [url, setUrl] = useState("")
+  const [headers, setHeaders] = useState(DEFAULT_HEADERS)
+  const [body, setBody] = useState("{\n  \n}")
+  const [provider, setProvider] = useState<SignatureProvider | "">("")
+  const [secret, setSecret] = useState("")
+  const [savedSecrets, setSavedSecrets] = useState<SigningSecrets>({})
+  const [history, setHistory] = useState<OutboundSend[]>([])
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [sending, setSending] = useState(false)
+
+  useEffect(() => {
+    getSendHistory(uuid).then(setHistory)
+    // Default the target and secrets to what the endpoint already uses for forwarding and verification
+    getWebhookSettings(uuid).then((settings) => {
+      if (settings?.forwardUrl) {
+        setUrl((current) => current || settings.forwardUrl!)
+      }
+      setSavedSecrets(settings?.signingSecrets ?? {})
+    })
+  }, [uuid])
+
+  const selectProvider = (value: SignatureProvider | "") => {
+    setProvider(value)
+    setSecret(value && value !== "discord" ? savedSecrets[value] ?? "" : "")
+  }
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id)
+    const template = SEND_TEMPLATES.find((item) => item.id === id)
+    if (!template) return
+    const rendered = renderTemplate(template)
+    setMethod(rendered.method)
+    setHeaders(JSON.stringify(rendered.headers, null, 2))
+    setBody(rendered.body)
+    selectProvider(template.provider)
+  }
+
+  // The composed request, or null after telling the user what is wrong with it
+  const buildRequest = (): OutboundRequest | null => {
+    let parsedHeaders: Record<string, string>
+    try {
+      parsedHeaders = JSON.parse(headers || "{}")
+    } catch {
+      toast.error("Headers must be a JSON object")
+      return null
+    }
+
+    return {
+      method,
+      url,
+      headers: parsedHeaders,
+      body: method === "GET" ? null : body,
+      signing: provider ? { provider, secret } : null,
+      template: SEND_TEMPLATES.find((item) => item.id === templateId)?.label,
+    }
+  }
+
+  const handleSend = async () => {
+    const request = buildRequest()
+    if (!request) return
+
+    setSending(true)
+    const result = await sendOutboundRequest(uuid, request)
+    setSending(false)
+
+    const { send } = result
+    if (!send) {
+      toast.error(result.error || "Failed to send request")
+      return
+    }
+
+    setHistory((prev) => [send, ...prev])
+    setExpandedId(send.id)
+    if (send.response.error) {
+      toast.error(`Send failed: ${send.response.error}`)
+    } else {
+      toast.success(`Sent: ${send.response.status} in ${send.response.duration} ms`)
+    }
+  }
+
+  // Load a logged request back into the composer, e.g. to send it again with a fresh signature
+  const handleLoad = (send: OutboundSend) => {
+    setTemplateId("")
+    setMethod(send.request.method)
+    setUrl(send.request.url)
+    setHeaders(JSON.stringify(send.request.headers, null, 2))
+    setBody(send.request.body ?? "")
+    selectProvider(send.signedWith ?? "")
+  }
+
+  const handleClearHistory = async () => {
+    if (await clearSendHistory(uuid)) {
+      setHistory([])
+    }
+  }
+
+  const bodyLanguage = /json/i.test(headers) ? "json" : "plaintext"
+
+  return (
+    <ScrollArea className="h-full">
+      <div className="p-6 space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold">Send Webhook</h2>
+            <p className="text-sm text-muted-foreground">
+              Compose a signed request and send it from the server to your own receiver
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <Label htmlFor="send-template">Template</Label>
+          <select
+            id="send-template"
+            value={templateId}
+            onChange={(e) => handleTemplateChange(e.target.value)}
+            className="h-9 border bg-background px-2 text-sm"
+          >
+            <option value="">Custom request</option>
+            {SEND_TEMPLATES.map((template) => (
+              <option key={template.id} value={template.id}>{template.label}</option>
+            ))}
+          </select>
+          <p className="text-xs text-muted-foreground">
+            Picking a template again generates fresh ids and timestamps
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="send-url">Target URL</Label>
+          <div className="flex gap-2">
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value)}
+              className="h-9 border bg-background px-2 text-sm"
+            >
+              {METHODS.map((item) => (
+                <option key={item} value={item}>{item}</option>
+              ))}
+            </select>
+            <Input
+              id="send-url"
+              type="url"
+              placeholder="http://localhost:3000/api/webhooks"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              className="font-mono"
+            />
+            <Button onClick={handleSend} disabled={sending || !url}>
+              {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+              Send
+            </Button>
+          </div>
+          <button
+            className="text-xs text-muted-foreground underline"
+            onClick={() => setUrl(`${window.location.origin}/api/webhook/${uuid}`)}
+          >
+            Send to this endpoint
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Signing</Label>
+          <div className="flex gap-2">
+            <select
+              value={provider}
+              onChange={(e) => selectProvider(e.target.value as SignatureProvider | "")}
+              className="h-9 border bg-background px-2 text-sm"
+            >
+              <option value="">Unsigned</option>
+              {SIGNATURE_PROVIDERS.map((item) => (
+                <option key={item.id} value={item.id}>{item.label}</option>
+              ))}
+            </select>
+            {provider && (
+              <Input
+                type="password"
+                placeholder={getSecretLabel(provider)}
+                value={secret}
+                onChange={(e) => setSecret(e.target.value)}
+                className="font-mono"
+              />
+            )}
+          </div>
+          {provider && (
+            <p className="text-xs text-muted-foreground">
+              Signature headers are computed on the server right before sending; the secret is not stored
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="send-headers">Headers (JSON)</Label>
+          <textarea
+            id="send-headers"
+            value={headers}
+            onChange={(e) => setHeaders(e.target.value)}
+            className="w-full min-h-[120px] p-3 border bg-background font-mono text-xs"
+          />
+        </div>
+
+        {method !== "GET" && (
+          <div className="space-y-2">
+            <Label>Body</Label>
+            <div className="border">
+              <Editor
+                height="280px"
+                language={bodyLanguage}
+                value={body}
+                onChange={(value) => setBody(value ?? "")}
+                options={{ ...EDITOR_OPTIONS, readOnly: false }}
+                theme="vs"
+              />
+            </div>
+          </div>
+        )}
+
+        <Separator />
+
+        <ScheduledJobs uuid={uuid} buildRequest={buildRequest} />
+
+        {history.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-semibold">Send History</h3>
+                <Button variant="ghost" size="sm" onClick={handleClearHistory}>
+                  Clear
+                </Button>
+              </div>
+              <div className="border">
+                {history.map((send, index) => (
+                  <div key={send.id}>
+                    <div
+                      className="flex items-center gap-3 p-2 text-sm cursor-pointer hover:bg-accent"
+                      onClick={() => setExpandedId(expandedId === send.id ? null : send.id)}
+                    >
+                      <Badge className={`${getStatusColor(send.response.status)} text-white text-xs`}>
+                        {send.response.status ?? "Failed"}
+                      </Badge>
+                      <span className="text-xs font-medium">{send.request.method}</span>
+                      <span className="font-mono text-xs truncate flex-1">{send.request.url}</span>
+                      {send.template && (
+                        <Badge variant="outline" className="text-xs">{send.template}</Badge>
+                      )}
+                      {send.signedWith && (
+                        <Badge variant="outline" className="text-xs">Signed · {send.signedWith}</Badge>
+                      )}
+                      <span className="text-xs text-muted-foreground">{send.response.duration} ms</span>
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(send.timestamp).toLocaleTimeString()}
+                      </span>
+                    </div>
+                    {expandedId === send.id && (
+                      <div className="p-3 space-y-3 bg-muted/50">
+                        <div className="flex items-center justify-between">
+                          <h4 className="text-xs font-semibold">Request</h4>
+                          <Button variant="outline" size="sm" onClick={() => handleLoad(send)}>
+                            Edit and resend
+                          </Button>
+                        </div>
+                        {Object.entries(send.request.headers).map(([key, value]) => (
+                          <div key={key} className="text-xs flex">
+                            <span className="font-medium text-muted-foreground min-w-[200px]">{key}:</span>
+                            <span className="font-mono flex-1 break-all">{value}</span>
+                          </div>
+                        ))}
+
+                        <h4 className="text-xs font-semibold">Response</h4>
+                        {send.response.error && (
+                          <p className="text-sm text-destructive">{send.response.error}</p>
+                        )}
+                        {Object.entries(send.response.headers).map(([key, value]) => (
+                          <div key={key} className="text-xs flex">
+                            <span className="font-medium text-muted-foreground min-w-[200px]">{key}:</span>
+                            <span className="font-mono flex-1 break-all">{value}</span>
+                          </div>
+                        ))}
+                        {send.response.body ? (
+                          <div className="border bg-background">
+                            <Editor
+                              height="200px"
+                              language={
+                                !send.response.bodyEncoding && /json/i.test(send.response.headers["content-type"] ?? "")
+                                  ? "json"
+                                  : "plaintext"
+                              }
+                              value={formatResultBody(send.response) ?? ""}
+                              options={EDITOR_OPTIONS}
+                              theme="vs"
+                            />
+                          </div>
+                        ) : (
+                          <p className="text-xs text-muted-foreground">No body</p>
+                        )}
+                      </div>
+                    )}
+                    {index < history.length - 1 && <Separator />}
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </ScrollArea>
+  )
+}
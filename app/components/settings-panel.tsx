@@ -8,9 +8,20 @@ import { ScrollArea } from "@/components/ui/scroll-area"
 import { Separator } from "@/components/ui/separator"
 import { Badge } from "@/components/ui/badge"
 import { X } from "lucide-react"
+import { toast } from "sonner"
 import { saveWebhookSettings, getWebhookSettings, type WebhookSettings } from "@/app/actions/settings"
+import { ResponseRulesEditor } from "./response-rules-editor"
+import { SimulationSettings } from "./simulation-settings"
+import { ApiKeySettings } from "./api-key-settings"
+import { SchemaValidationSettings } from "./schema-validation-settings"
+import { TEMPLATE_FILTERS, TEMPLATE_VARIABLES } from "@/lib/template"
+import { DEFAULT_SIMULATION } from "@/lib/simulation"
+import { SIGNATURE_PROVIDERS, type SignatureProvider } from "@/lib/signatures"
+import { DEFAULT_RETENTION, MAX_EVENTS_LIMIT, type RetentionSettings } from "@/lib/retention"
+import { DEFAULT_SCHEMA_VALIDATION } from "@/lib/schema-validation"
 
-const SETTINGS_KEY = "ehook-settings"
+// Settings used to be mirrored here for every endpoint at once, signing secrets included
+const LEGACY_SETTINGS_KEY = "ehook-settings"
 
 const DEFAULT_SETTINGS: WebhookSettings = {
   responseStatus: 200,
@@ -18,6 +29,26 @@ const DEFAULT_SETTINGS: WebhookSettings = {
   responseHeaders: {},
 }
 
+function TemplateHelp() {
+  return (
+    <details className="text-xs text-muted-foreground">
+      <summary className="cursor-pointer">Template variables</summary>
+      <div className="mt-2 space-y-1">
+        {TEMPLATE_VARIABLES.map((variable) => (
+          <div key={variable.name} className="flex gap-2">
+            <code className="font-mono bg-muted px-1">{`{{${variable.name}}}`}</code>
+            <span>{variable.description}</span>
+          </div>
+        ))}
+        <p className="pt-1">
+          Filters: {TEMPLATE_FILTERS.map((filter) => `| ${filter}`).join(", ")} — e.g.{" "}
+          <code className="font-mono bg-muted px-1">{`{"challenge": {{body.challenge | json}}}`}</code>
+        </p>
+      </div>
+    </details>
+  )
+}
+
 type SettingsPanelProps = {
   uuid: string
   onClose: () => void
@@ -30,50 +61,33 @@ export function SettingsPanel({ uuid, onClose }: SettingsPanelProps) {
   const [saved, setSaved] = useState(false)
 
   useEffect(() => {
-    // Load settings from server
+    localStorage.removeItem(LEGACY_SETTINGS_KEY)
+  }, [])
+
+  useEffect(() => {
+    // Settings live on the server per endpoint; an endpoint without any starts from the defaults
     if (uuid) {
       getWebhookSettings(uuid).then((serverSettings) => {
-        if (serverSettings) {
-          setSettings(serverSettings)
-        } else {
-          // Try localStorage fallback
-          const stored = localStorage.getItem(SETTINGS_KEY)
-          if (stored) {
-            try {
-              setSettings(JSON.parse(stored))
-            } catch (e) {
-              console.error("Failed to parse settings:", e)
-            }
-          }
-        }
+        setSettings(serverSettings ?? DEFAULT_SETTINGS)
       })
     }
   }, [uuid])
 
-  const saveSettings = async () => {
-    // Save to localStorage
-    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
-    
-    // Save to server if we have a UUID
-    if (uuid) {
-      await saveWebhookSettings(uuid, settings)
+  const persistSettings = async (next: WebhookSettings) => {
+    if (!(await saveWebhookSettings(uuid, next))) {
+      toast.error("Failed to save settings")
+      return
     }
-    
+
     setSaved(true)
     setTimeout(() => setSaved(false), 2000)
   }
 
+  const saveSettings = () => persistSettings(settings)
+
   const resetSettings = async () => {
     setSettings(DEFAULT_SETTINGS)
-    localStorage.setItem(SETTINGS_KEY, JSON.stringify(DEFAULT_SETTINGS))
-    
-    // Save to server if we have a UUID
-    if (uuid) {
-      await saveWebhookSettings(uuid, DEFAULT_SETTINGS)
-    }
-    
-    setSaved(true)
-    setTimeout(() => setSaved(false), 2000)
+    await persistSettings(DEFAULT_SETTINGS)
   }
 
   const addHeader = () => {
@@ -90,6 +104,25 @@ export function SettingsPanel({ uuid, onClose }: SettingsPanelProps) {
     }
   }
 
+  const setSigningSecret = (provider: SignatureProvider, secret: string) => {
+    setSettings({
+      ...settings,
+      signingSecrets: {
+        ...settings.signingSecrets,
+        [provider]: secret,
+      },
+    })
+  }
+
+  const setRetention = (changes: Partial<RetentionSettings>) => {
+    setSettings({
+      ...settings,
+      retention: { ...DEFAULT_RETENTION, ...settings.retention, ...changes },
+    })
+  }
+
+  const retention = settings.retention || DEFAULT_RETENTION
+
   const removeHeader = (key: string) => {
     const newHeaders = { ...settings.responseHeaders }
     delete newHeaders[key]
@@ -107,7 +140,7 @@ export function SettingsPanel({ uuid, onClose }: SettingsPanelProps) {
           <div>
             <h2 className="text-lg font-semibold">Webhook Settings</h2>
             <p className="text-sm text-muted-foreground">
-              Configure the default response for your webhooks
+              Configure how your webhook responds to incoming requests
             </p>
           </div>
           <Button variant="ghost" size="sm" onClick={onClose}>
@@ -138,7 +171,7 @@ export function SettingsPanel({ uuid, onClose }: SettingsPanelProps) {
 
         {/* Response Body */}
         <div className="space-y-2">
-          <Label htmlFor="body">Response Body (JSON)</Label>
+          <Label htmlFor="body">Response Body</Label>
           <textarea
             id="body"
             value={settings.responseBody}
@@ -147,8 +180,9 @@ export function SettingsPanel({ uuid, onClose }: SettingsPanelProps) {
             placeholder='{"success": true}'
           />
           <p className="text-xs text-muted-foreground">
-            The JSON body to return in the response
+            The body to return in the response. JSON is sent as application/json, anything else as plain text
           </p>
+          <TemplateHelp />
         </div>
 
         <Separator />
@@ -203,6 +237,166 @@ export function SettingsPanel({ uuid, onClose }: SettingsPanelProps) {
 
         <Separator />
 
+        {/* Response Rules */}
+        <div className="space-y-3">
+          <div>
+            <Label>Response Rules</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Rules are checked in order; the first match decides the response, otherwise the default above is used
+            </p>
+          </div>
+          <ResponseRulesEditor
+            rules={settings.responseRules || []}
+            onChange={(responseRules) => setSettings({ ...settings, responseRules })}
+          />
+        </div>
+
+        <Separator />
+
+        {/* Failure Simulation */}
+        <div className="space-y-3">
+          <div>
+            <Label>Failure Simulation</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Delay, fail or time out responses to test how senders retry
+            </p>
+          </div>
+          <SimulationSettings
+            simulation={settings.simulation || DEFAULT_SIMULATION}
+            onChange={(simulation) => setSettings({ ...settings, simulation })}
+          />
+        </div>
+
+        <Separator />
+
+        {/* Forwarding */}
+        <div className="space-y-2">
+          <Label htmlFor="forward-url">Forward URL</Label>
+          <Input
+            id="forward-url"
+            type="url"
+            placeholder="https://example.ngrok.app/webhooks"
+            value={settings.forwardUrl || ""}
+            onChange={(e) => setSettings({ ...settings, forwardUrl: e.target.value })}
+            className="font-mono"
+          />
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={settings.forwardResponse || false}
+              disabled={!settings.forwardUrl}
+              onChange={(e) => setSettings({ ...settings, forwardResponse: e.target.checked })}
+            />
+            Respond with the upstream response
+          </label>
+          <p className="text-xs text-muted-foreground">
+            Relay every captured request (method, headers, query and raw body) to this URL and record its response
+          </p>
+        </div>
+
+        <Separator />
+
+        {/* Signing Secrets */}
+        <div className="space-y-3">
+          <Label>Signing Secrets</Label>
+          {SIGNATURE_PROVIDERS.map((provider) => (
+            <div key={provider.id} className="grid grid-cols-[100px_1fr] items-center gap-2">
+              <Label htmlFor={`secret-${provider.id}`} className="text-sm font-normal">
+                {provider.label}
+              </Label>
+              <Input
+                id={`secret-${provider.id}`}
+                type="password"
+                autoComplete="off"
+                placeholder={provider.secretLabel}
+                value={settings.signingSecrets?.[provider.id] || ""}
+                onChange={(e) => setSigningSecret(provider.id, e.target.value)}
+                className="font-mono"
+              />
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Incoming signatures are verified against the raw body using each provider&apos;s signing scheme
+          </p>
+        </div>
+
+        <Separator />
+
+        {/* Schema Validation */}
+        <div className="space-y-3">
+          <div>
+            <Label>Schema Validation</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Check every incoming body against a JSON Schema and record the errors with their JSON paths
+            </p>
+          </div>
+          <SchemaValidationSettings
+            validation={settings.validation || DEFAULT_SCHEMA_VALIDATION}
+            onChange={(validation) => setSettings({ ...settings, validation })}
+          />
+        </div>
+
+        <Separator />
+
+        {/* Retention */}
+        <div className="space-y-3">
+          <Label>Retention</Label>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="max-events" className="text-sm font-normal">Max events</Label>
+              <Input
+                id="max-events"
+                type="number"
+                min={1}
+                max={MAX_EVENTS_LIMIT}
+                value={retention.maxEvents}
+                onChange={(e) => setRetention({ maxEvents: parseInt(e.target.value) || DEFAULT_RETENTION.maxEvents })}
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="max-age" className="text-sm font-normal">Max age (hours)</Label>
+              <Input
+                id="max-age"
+                type="number"
+                min={0}
+                value={retention.maxAgeHours}
+                onChange={(e) => setRetention({ maxAgeHours: parseFloat(e.target.value) || 0 })}
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="max-size" className="text-sm font-normal">Max size (KB)</Label>
+              <Input
+                id="max-size"
+                type="number"
+                min={0}
+                value={Math.round(retention.maxBytes / 1024)}
+                onChange={(e) => setRetention({ maxBytes: (parseInt(e.target.value) || 0) * 1024 })}
+                className="font-mono"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Older events are dropped once any limit is reached; 0 means no age or size limit. Up to {MAX_EVENTS_LIMIT} events can be kept
+          </p>
+        </div>
+
+        <Separator />
+
+        {/* API Access */}
+        <div className="space-y-3">
+          <div>
+            <Label>API Access</Label>
+            <p className="text-xs text-muted-foreground mt-1">
+              Read and delete captured events from scripts and integration tests. Keys take effect immediately
+            </p>
+          </div>
+          <ApiKeySettings uuid={uuid} />
+        </div>
+
+        <Separator />
+
         {/* Action Buttons */}
         <div className="flex gap-3">
           <Button onClick={saveSettings} className="flex-1">
@@ -0,0 +1,48 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import { SIGNATURE_PROVIDERS, type SignatureVerification } from "@/lib/signatures"
+import { ShieldAlert, ShieldCheck, ShieldQuestion } from "lucide-react"
+
+type SignatureBadgeProps = {
+  signature: SignatureVerification
+}
+
+export const getSignatureLabel = (signature: SignatureVerification) => {
+  const provider = SIGNATURE_PROVIDERS.find((p) => p.id === signature.provider)?.label ?? signature.provider
+  switch (signature.status) {
+    case "valid":
+      return `${provider} signature valid`
+    case "invalid":
+      return `${provider} signature invalid`
+    default:
+      return `${provider} signature not verified`
+  }
+}
+
+export function SignatureIcon({ signature, className = "h-3 w-3" }: SignatureBadgeProps & { className?: string }) {
+  switch (signature.status) {
+    case "valid":
+      return <ShieldCheck className={`${className} text-green-600`} />
+    case "invalid":
+      return <ShieldAlert className={`${className} text-red-500`} />
+    default:
+      return <ShieldQuestion className={`${className} text-muted-foreground`} />
+  }
+}
+
+export function SignatureBadge({ signature }: SignatureBadgeProps) {
+  const color =
+    signature.status === "valid"
+      ? "border-green-600 text-green-700"
+      : signature.status === "invalid"
+        ? "border-red-500 text-red-600"
+        : ""
+
+  return (
+    <Badge variant="outline" className={`text-xs ${color}`} title={signature.reason}>
+      <SignatureIcon signature={signature} />
+      {getSignatureLabel(signature)}
+    </Badge>
+  )
+}
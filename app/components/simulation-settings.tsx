@@ -0,0 +1,117 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { MAX_HANG_MS, type ResponseSimulation } from "@/lib/simulation"
+
+type SimulationSettingsProps = {
+  simulation: ResponseSimulation
+  onChange: (simulation: ResponseSimulation) => void
+}
+
+const parseDelay = (value: string) => Math.min(MAX_HANG_MS, parseInt(value) || 0)
+
+export function SimulationSettings({ simulation, onChange }: SimulationSettingsProps) {
+  const update = (changes: Partial<ResponseSimulation>) => onChange({ ...simulation, ...changes })
+
+  return (
+    <div className="space-y-4">
+      {/* Delay */}
+      <div className="space-y-2">
+        <Label className="text-sm font-normal">Response delay</Label>
+        <div className="flex items-center gap-2">
+          <select
+            value={simulation.delayMode}
+            onChange={(e) => update({ delayMode: e.target.value as ResponseSimulation["delayMode"] })}
+            className="h-9 border bg-background px-2 text-sm"
+            disabled={simulation.hang}
+          >
+            <option value="none">No delay</option>
+            <option value="fixed">Fixed</option>
+            <option value="random">Random range</option>
+          </select>
+          {simulation.delayMode !== "none" && (
+            <Input
+              type="number"
+              min={0}
+              max={MAX_HANG_MS}
+              value={simulation.delayMs}
+              onChange={(e) => update({ delayMs: parseDelay(e.target.value) })}
+              className="w-28 font-mono"
+              disabled={simulation.hang}
+            />
+          )}
+          {simulation.delayMode === "random" && (
+            <>
+              <span className="text-sm text-muted-foreground">to</span>
+              <Input
+                type="number"
+                min={0}
+                max={MAX_HANG_MS}
+                value={simulation.delayMaxMs}
+                onChange={(e) => update({ delayMaxMs: parseDelay(e.target.value) })}
+                className="w-28 font-mono"
+                disabled={simulation.hang}
+              />
+            </>
+          )}
+          {simulation.delayMode !== "none" && <span className="text-sm text-muted-foreground">ms</span>}
+        </div>
+      </div>
+
+      {/* Failures */}
+      <div className="grid grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label htmlFor="fail-first" className="text-sm font-normal">Fail first N requests</Label>
+          <Input
+            id="fail-first"
+            type="number"
+            min={0}
+            value={simulation.failFirstCount}
+            onChange={(e) => update({ failFirstCount: parseInt(e.target.value) || 0 })}
+            className="font-mono"
+            disabled={simulation.hang}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="failure-rate" className="text-sm font-normal">Random failure %</Label>
+          <Input
+            id="failure-rate"
+            type="number"
+            min={0}
+            max={100}
+            value={simulation.failureRate}
+            onChange={(e) => update({ failureRate: Math.min(100, Math.max(0, parseInt(e.target.value) || 0)) })}
+            className="font-mono"
+            disabled={simulation.hang}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="failure-status" className="text-sm font-normal">Failure status</Label>
+          <Input
+            id="failure-status"
+            type="number"
+            value={simulation.failureStatus}
+            onChange={(e) => update({ failureStatus: parseInt(e.target.value) || 500 })}
+            className="font-mono"
+            disabled={simulation.hang}
+          />
+        </div>
+      </div>
+
+      {/* Hang */}
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={simulation.hang}
+          onChange={(e) => update({ hang: e.target.checked })}
+        />
+        Hang until the sender times out
+      </label>
+
+      <p className="text-xs text-muted-foreground">
+        Requests are still captured when a failure is injected. Saving settings restarts the &quot;fail first N&quot; count.
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { EDITOR_OPTIONS } from "@/lib/editor"
+import { SNIPPET_LANGUAGES, generateSnippet, type SnippetLanguage } from "@/lib/snippets"
+import { type WebhookEvent } from "@/app/actions/webhook"
+import { Copy } from "lucide-react"
+import Editor from "@monaco-editor/react"
+import { toast } from "sonner"
+
+const LANGUAGE_KEY = "ehook-snippet-language"
+
+type SnippetPanelProps = {
+  event: WebhookEvent
+}
+
+export function SnippetPanel({ event }: SnippetPanelProps) {
+  const [language, setLanguage] = useState<SnippetLanguage>("curl")
+
+  // Remember the last language picked across events and reloads
+  useEffect(() => {
+    const stored = localStorage.getItem(LANGUAGE_KEY)
+    if (SNIPPET_LANGUAGES.some((item) => item.id === stored)) {
+      setLanguage(stored as SnippetLanguage)
+    }
+  }, [])
+
+  const handleLanguageChange = (value: SnippetLanguage) => {
+    setLanguage(value)
+    localStorage.setItem(LANGUAGE_KEY, value)
+  }
+
+  const { label, editorLanguage } = SNIPPET_LANGUAGES.find((item) => item.id === language)!
+  const snippet = generateSnippet(event, language)
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(snippet)
+    toast.success(`Copied as ${label}`)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <select
+          className="h-9 border bg-background px-2 text-sm"
+          value={language}
+          onChange={(e) => handleLanguageChange(e.target.value as SnippetLanguage)}
+        >
+          {SNIPPET_LANGUAGES.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.label}
+            </option>
+          ))}
+        </select>
+        <Button variant="outline" size="sm" onClick={handleCopy}>
+          <Copy className="h-4 w-4 mr-1" />
+          Copy
+        </Button>
+      </div>
+      <div className="border">
+        <Editor
+          height="240px"
+          language={editorLanguage}
+          value={snippet}
+          options={EDITOR_OPTIONS}
+          theme="vs"
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { EDITOR_OPTIONS } from "@/lib/editor"
+import { decodeProvider } from "@/lib/providers"
+import { generateTypeScript, generateZod, getTypeName, inferSchema } from "@/lib/schema-inference"
+import { exportWebhookEvents, type WebhookEvent } from "@/app/actions/webhook"
+import { Copy } from "lucide-react"
+import Editor from "@monaco-editor/react"
+import { toast } from "sonner"
+
+const OUTPUTS = [
+  { id: "typescript", label: "TypeScript interfaces", editorLanguage: "typescript" },
+  { id: "zod", label: "zod schema", editorLanguage: "typescript" },
+  { id: "json-schema", label: "JSON Schema", editorLanguage: "json" },
+] as const
+
+type Output = (typeof OUTPUTS)[number]["id"]
+
+type TypeGeneratorProps = {
+  event: WebhookEvent
+}
+
+export function TypeGenerator({ event }: TypeGeneratorProps) {
+  const eventType = decodeProvider(event)?.eventType
+  const [scope, setScope] = useState<"type" | "all">(eventType ? "type" : "all")
+  const [output, setOutput] = useState<Output>("typescript")
+  const [samples, setSamples] = useState<unknown[] | null>(null)
+
+  const filterType = scope === "type" ? eventType : undefined
+
+  useEffect(() => {
+    let cancelled = false
+    setSamples(null)
+    exportWebhookEvents(event.uuid, filterType ? { eventType: filterType } : {}).then((events) => {
+      if (cancelled) return
+      // Only structured bodies say anything about the shape of a payload
+      setSamples(events.map((item) => item.body).filter((body) => body !== null && typeof body === "object"))
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [event.uuid, filterType])
+
+  const code = useMemo(() => {
+    if (!samples?.length) return ""
+    const schema = inferSchema(samples, filterType)
+    const name = getTypeName(filterType)
+    switch (output) {
+      case "typescript":
+        return generateTypeScript(schema, name)
+      case "zod":
+        return generateZod(schema, name)
+      default:
+        return JSON.stringify(schema, null, 2)
+    }
+  }, [samples, output, filterType])
+
+  const { label, editorLanguage } = OUTPUTS.find((item) => item.id === output)!
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(code)
+    toast.success(`Copied ${label}`)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <select
+          className="h-9 border bg-background px-2 text-sm"
+          value={scope}
+          onChange={(e) => setScope(e.target.value as "type" | "all")}
+        >
+          {eventType && <option value="type">Events of type {eventType}</option>}
+          <option value="all">All captured events</option>
+        </select>
+        <select
+          className="h-9 border bg-background px-2 text-sm"
+          value={output}
+          onChange={(e) => setOutput(e.target.value as Output)}
+        >
+          {OUTPUTS.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.label}
+            </option>
+          ))}
+        </select>
+        <Button variant="outline" size="sm" onClick={handleCopy} disabled={!code}>
+          <Copy className="h-4 w-4 mr-1" />
+          Copy
+        </Button>
+      </div>
+
+      {samples === null ? (
+        <p className="text-sm text-muted-foreground">Loading payloads...</p>
+      ) : samples.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No JSON or form payloads captured for this selection yet</p>
+      ) : (
+        <>
+          <p className="text-xs text-muted-foreground">
+            Inferred from {samples.length} {samples.length === 1 ? "payload" : "payloads"}; fields missing from any of them are optional
+          </p>
+          <div className="border">
+            <Editor
+              height="320px"
+              language={editorLanguage}
+              value={code}
+              options={EDITOR_OPTIONS}
+              theme="vs"
+            />
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
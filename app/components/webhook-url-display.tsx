@@ -8,12 +8,13 @@ import { Copy, Check } from "lucide-react"
 
 type WebhookUrlDisplayProps = {
   uuid: string
+  slug?: string
   status: "connecting" | "connected" | "reconnecting" | "disconnected"
 }
 
-export function WebhookUrlDisplay({ uuid, status }: WebhookUrlDisplayProps) {
+export function WebhookUrlDisplay({ uuid, slug, status }: WebhookUrlDisplayProps) {
   const [copied, setCopied] = useState(false)
-  const webhookUrl = `${typeof window !== "undefined" ? window.location.origin : ""}/api/webhook/${uuid}`
+  const webhookUrl = `${typeof window !== "undefined" ? window.location.origin : ""}/api/webhook/${slug || uuid}`
 
   const copyToClipboard = async () => {
     try {
@@ -65,6 +66,9 @@ export function WebhookUrlDisplay({ uuid, status }: WebhookUrlDisplayProps) {
           className="pl-10 cursor-pointer font-mono text-sm"
         />
       </div>
+      <p className="text-xs text-muted-foreground">
+        Any sub-path works too, e.g. <code className="font-mono">{webhookUrl}/stripe/events</code>
+      </p>
     </div>
   )
 }
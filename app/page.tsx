@@ -6,32 +6,146 @@ import { WebhookUrlDisplay } from "./components/webhook-url-display"
 import { Inbox } from "./components/inbox"
 import { MessageViewer } from "./components/message-viewer"
 import { SettingsPanel } from "./components/settings-panel"
+import { SendPanel } from "./components/send-panel"
 import { type WebhookEvent } from "./actions/webhook"
+import {
+  createEndpoint,
+  deleteEndpoint,
+  getEndpoints,
+  setEndpointSlug,
+  updateEndpoint,
+  type Endpoint,
+} from "./actions/endpoints"
+import { EndpointSwitcher, ENDPOINT_COLORS } from "./components/endpoint-switcher"
+import { toast } from "sonner"
 import {
   ResizableHandle,
   ResizablePanel,
   ResizablePanelGroup,
 } from "@/components/ui/resizable"
 
-const STORAGE_KEY = "ehook-webhook-uuid"
+// Endpoints created before workspaces existed were stored under this key
+const LEGACY_STORAGE_KEY = "ehook-webhook-uuid"
+const WORKSPACE_KEY = "ehook-workspace-id"
+const ACTIVE_ENDPOINT_KEY = "ehook-active-endpoint"
 
 export default function Home() {
+  const [workspaceId, setWorkspaceId] = useState<string>("")
+  const [endpoints, setEndpoints] = useState<Endpoint[]>([])
   const [uuid, setUuid] = useState<string>("")
   const [selectedEvent, setSelectedEvent] = useState<WebhookEvent | null>(null)
+  const [updatedEvent, setUpdatedEvent] = useState<WebhookEvent | null>(null)
+  const [compareEvent, setCompareEvent] = useState<WebhookEvent | null>(null)
   const [status, setStatus] = useState<"connecting" | "connected" | "reconnecting" | "disconnected">("connecting")
   const [unreadCount, setUnreadCount] = useState(0)
+  const [unreadByEndpoint, setUnreadByEndpoint] = useState<Record<string, number>>({})
   const [showSettings, setShowSettings] = useState(false)
+  const [showSender, setShowSender] = useState(false)
 
   useEffect(() => {
-    // Get or create UUID from localStorage
-    let storedUuid = localStorage.getItem(STORAGE_KEY)
-    if (!storedUuid) {
-      storedUuid = uuidv4()
-      localStorage.setItem(STORAGE_KEY, storedUuid)
+    // A workspace link (?workspace=...) restores endpoints after browser storage was cleared
+    const params = new URLSearchParams(window.location.search)
+    let storedWorkspace = params.get("workspace") || localStorage.getItem(WORKSPACE_KEY)
+    if (!storedWorkspace) {
+      storedWorkspace = uuidv4()
+    }
+    localStorage.setItem(WORKSPACE_KEY, storedWorkspace)
+    setWorkspaceId(storedWorkspace)
+
+    const loadEndpoints = async (workspace: string) => {
+      let workspaceEndpoints = await getEndpoints(workspace)
+
+      // Adopt the single endpoint from before workspaces, or create a first one
+      if (workspaceEndpoints.length === 0) {
+        const legacyUuid = localStorage.getItem(LEGACY_STORAGE_KEY)
+        const endpoint = await createEndpoint(workspace, {
+          id: legacyUuid || undefined,
+          name: "Default",
+          color: ENDPOINT_COLORS[1],
+        })
+        workspaceEndpoints = endpoint ? [endpoint] : []
+        // Adopted once, so deleting it later does not bring the old id back
+        if (endpoint) {
+          localStorage.removeItem(LEGACY_STORAGE_KEY)
+        }
+      }
+
+      setEndpoints(workspaceEndpoints)
+      const storedActive = localStorage.getItem(ACTIVE_ENDPOINT_KEY)
+      const active = workspaceEndpoints.find((endpoint) => endpoint.id === storedActive) ?? workspaceEndpoints[0]
+      if (active) {
+        setUuid(active.id)
+      }
     }
-    setUuid(storedUuid)
+
+    loadEndpoints(storedWorkspace)
   }, [])
 
+  const selectEndpoint = (endpointId: string) => {
+    localStorage.setItem(ACTIVE_ENDPOINT_KEY, endpointId)
+    setUuid(endpointId)
+    setSelectedEvent(null)
+    setCompareEvent(null)
+    setUnreadByEndpoint((prev) => ({ ...prev, [endpointId]: 0 }))
+  }
+
+  const handleCreateEndpoint = async (name: string) => {
+    const endpoint = await createEndpoint(workspaceId, {
+      name,
+      color: ENDPOINT_COLORS[endpoints.length % ENDPOINT_COLORS.length],
+    })
+    if (!endpoint) {
+      toast.error("Failed to create endpoint")
+      return
+    }
+    setEndpoints((prev) => [...prev, endpoint])
+    selectEndpoint(endpoint.id)
+    toast.success(`Created "${endpoint.name}"`)
+  }
+
+  const handleUpdateEndpoint = async (endpointId: string, changes: Partial<Pick<Endpoint, "name" | "color">>) => {
+    const endpoint = await updateEndpoint(workspaceId, endpointId, changes)
+    if (endpoint) {
+      setEndpoints((prev) => prev.map((e) => (e.id === endpointId ? endpoint : e)))
+    }
+  }
+
+  const handleSetSlug = async (endpointId: string, slug: string | null) => {
+    const result = await setEndpointSlug(workspaceId, endpointId, slug)
+    if (!result.endpoint) {
+      toast.error(result.error || "Failed to update slug")
+      return false
+    }
+    const endpoint = result.endpoint
+    setEndpoints((prev) => prev.map((e) => (e.id === endpointId ? endpoint : e)))
+    return true
+  }
+
+  const handleDeleteEndpoint = async (endpointId: string) => {
+    if (!(await deleteEndpoint(workspaceId, endpointId))) {
+      toast.error("Failed to delete endpoint")
+      return
+    }
+    const remaining = endpoints.filter((endpoint) => endpoint.id !== endpointId)
+    // Always leave an endpoint to show; the replacement is new rather than the legacy id, which may be the one deleted
+    if (remaining.length === 0) {
+      const endpoint = await createEndpoint(workspaceId, { name: "Default", color: ENDPOINT_COLORS[1] })
+      if (endpoint) {
+        remaining.push(endpoint)
+      }
+    }
+    setEndpoints(remaining)
+    if (endpointId === uuid) {
+      if (remaining[0]) {
+        selectEndpoint(remaining[0].id)
+      } else {
+        localStorage.removeItem(ACTIVE_ENDPOINT_KEY)
+        setUuid("")
+      }
+    }
+    toast.success("Endpoint deleted")
+  }
+
   // Update document title with unread count
   useEffect(() => {
     if (unreadCount > 0) {
@@ -79,6 +193,7 @@ export default function Home() {
               uuid={uuid}
               onSelectEvent={(event) => {
                 setSelectedEvent(event)
+                setCompareEvent((prev) => (prev?.id === event.id ? null : prev))
                 setUnreadCount(0) // Clear unread when user interacts
               }}
               selectedEventId={selectedEvent?.id || null}
@@ -91,22 +206,72 @@ export default function Home() {
               }}
               onEventsChange={() => {
                 setSelectedEvent(null)
+                setCompareEvent(null)
+              }}
+              onOpenSettings={() => {
+                setShowSettings(!showSettings)
+                setShowSender(false)
               }}
-              onOpenSettings={() => setShowSettings(!showSettings)}
               showSettings={showSettings}
+              onOpenSender={() => {
+                setShowSender(!showSender)
+                setShowSettings(false)
+              }}
+              showSender={showSender}
+              updatedEvent={updatedEvent}
+              endpointName={endpoints.find((endpoint) => endpoint.id === uuid)?.name}
+              compareEventId={compareEvent?.id || null}
+              onCompareEvent={(event) => {
+                // Shift+clicking with nothing selected just selects the event
+                if (!selectedEvent || selectedEvent.id === event.id) {
+                  setSelectedEvent(event)
+                  return
+                }
+                setCompareEvent((prev) => (prev?.id === event.id ? null : event))
+              }}
+              onEventUpdate={(event) => setSelectedEvent((prev) => (prev?.id === event.id ? event : prev))}
+              endpointIds={endpoints.map((endpoint) => endpoint.id)}
+              onOtherEndpointEvent={(endpointId) =>
+                setUnreadByEndpoint((prev) => ({ ...prev, [endpointId]: (prev[endpointId] || 0) + 1 }))
+              }
+              endpointSwitcher={
+                <EndpointSwitcher
+                  workspaceId={workspaceId}
+                  endpoints={endpoints}
+                  activeEndpointId={uuid}
+                  unreadCounts={unreadByEndpoint}
+                  onSelect={selectEndpoint}
+                  onCreate={handleCreateEndpoint}
+                  onUpdate={handleUpdateEndpoint}
+                  onSetSlug={handleSetSlug}
+                  onDelete={handleDeleteEndpoint}
+                />
+              }
             />
           </ResizablePanel>
           <ResizableHandle withHandle />
           <ResizablePanel defaultSize={70}>
             <div className="p-4 border-b">
-              <WebhookUrlDisplay uuid={uuid} status={status} />
+              <WebhookUrlDisplay
+                uuid={uuid}
+                slug={endpoints.find((endpoint) => endpoint.id === uuid)?.slug}
+                status={status}
+              />
             </div>
             {showSettings ? (
-              <SettingsPanel uuid={uuid} onClose={() => setShowSettings(false)} />
+              <SettingsPanel key={uuid} uuid={uuid} onClose={() => setShowSettings(false)} />
+            ) : showSender ? (
+              <SendPanel key={uuid} uuid={uuid} onClose={() => setShowSender(false)} />
             ) : (
               <MessageViewer
                 event={selectedEvent}
                 onDelete={() => setSelectedEvent(null)}
+                compareEvent={compareEvent}
+                onCloseCompare={() => setCompareEvent(null)}
+                onUpdate={(event) => {
+                  setSelectedEvent(event)
+                  setUpdatedEvent(event)
+                }}
               />
             )}
           </ResizablePanel>
@@ -0,0 +1,104 @@
+import { type WebhookEvent, type WebhookEventPage } from "@/app/actions/webhook"
+
+export type ClientConfig = {
+  server: string
+  apiKey?: string
+}
+
+export class ApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+async function apiRequest<T>(config: ClientConfig, path: string, init: RequestInit = {}): Promise<T> {
+  if (!config.apiKey) {
+    throw new ApiError("An API key is required; pass --api-key or set EHOOK_API_KEY", 401)
+  }
+
+  const response = await fetch(new URL(path, config.server), {
+    ...init,
+    headers: { ...init.headers, Authorization: `Bearer ${config.apiKey}` },
+  })
+  const data = await response.json().catch(() => null)
+  if (!response.ok) {
+    throw new ApiError(data?.error || `${response.status} ${response.statusText}`, response.status)
+  }
+  return data as T
+}
+
+export async function listEvents(
+  config: ClientConfig,
+  endpoint: string,
+  params: URLSearchParams
+): Promise<WebhookEventPage> {
+  return apiRequest(config, `/api/v1/endpoints/${encodeURIComponent(endpoint)}/events?${params}`)
+}
+
+export async function getEvent(config: ClientConfig, endpoint: string, eventId: string): Promise<WebhookEvent> {
+  const { event } = await apiRequest<{ event: WebhookEvent }>(
+    config,
+    `/api/v1/endpoints/${encodeURIComponent(endpoint)}/events/${encodeURIComponent(eventId)}`
+  )
+  return event
+}
+
+type StreamMessage =
+  | { type: "connected" | "reconnect" | "ping" | "error"; channel?: string }
+  | { type?: undefined; data: WebhookEvent; __event_path: string[]; __stream_id: string; __channel: string }
+
+// Follow an endpoint's realtime channel through the app's /api/realtime stream, reconnecting
+// from the last seen message whenever the server rotates the connection
+export async function subscribe(
+  config: ClientConfig,
+  uuid: string,
+  handlers: { onConnect?: () => void; onEvent: (event: WebhookEvent) => void | Promise<void> },
+  signal?: AbortSignal
+) {
+  const channel = `webhook:${uuid}`
+  let lastAck: string | null = null
+
+  while (!signal?.aborted) {
+    const url = new URL("/api/realtime", config.server)
+    url.searchParams.set("channels", channel)
+    if (lastAck) {
+      url.searchParams.set("reconnect", "true")
+      url.searchParams.set(`last_ack_${channel}`, lastAck)
+    }
+
+    const response = await fetch(url, { headers: { Accept: "text/event-stream" }, signal })
+    if (!response.ok || !response.body) {
+      throw new ApiError(`Could not connect to ${url.origin} (${response.status})`, response.status)
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+    let buffer = ""
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) break
+      buffer += value
+
+      // Server-sent events are separated by a blank line
+      let boundary: number
+      while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+        const chunk = buffer.slice(0, boundary)
+        buffer = buffer.slice(boundary + 2)
+
+        const data = chunk
+          .split("\n")
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).trim())
+          .join("\n")
+        if (!data) continue
+
+        const message = JSON.parse(data) as StreamMessage
+        if (message.type === "connected") {
+          handlers.onConnect?.()
+        } else if (message.type === undefined && message.__event_path.join(".") === "webhook.received") {
+          lastAck = message.__stream_id
+          await handlers.onEvent(message.data)
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,158 @@
+import { writeFile } from "node:fs/promises"
+import { serializeBody, type ForwardRequest, type ForwardResult } from "@/lib/forward"
+import { forwardWebhook } from "@/lib/upstream"
+import { decodeRawBody, formatBytes } from "@/lib/body"
+import { type WebhookEvent } from "@/app/actions/webhook"
+import { getEvent, listEvents, subscribe, type ClientConfig } from "./client"
+
+// Rebuild the captured request, preferring the original bytes over the parsed body
+function toForwardRequest(event: WebhookEvent): ForwardRequest {
+  const contentType = String(event.headers["content-type"] || "")
+  return {
+    method: event.method,
+    headers: event.headers as Record<string, string>,
+    query: event.query as Record<string, string>,
+    rawBody: event.rawBody
+      ? decodeRawBody(event.rawBody, event.bodyEncoding ?? "utf8")
+      : serializeBody(event.body, contentType),
+  }
+}
+
+// Send to the target with the event's sub-path appended, e.g. /hooks + /stripe/events
+function joinPath(target: string, path?: string) {
+  if (!path) return target
+  const url = new URL(target)
+  url.pathname = url.pathname.replace(/\/$/, "") + path
+  return url.toString()
+}
+
+function formatTime(timestamp: number) {
+  return new Date(timestamp).toLocaleTimeString()
+}
+
+function formatEventLine(event: WebhookEvent) {
+  const size = event.bodySize !== undefined ? formatBytes(event.bodySize) : ""
+  return [formatTime(event.timestamp), event.method.padEnd(7), event.path || "/", size, event.id]
+    .filter(Boolean)
+    .join("  ")
+}
+
+function formatResult(result: ForwardResult) {
+  if (result.status === null) {
+    return `✗ ${result.url}  ${result.error}`
+  }
+  return `→ ${result.url}  ${result.status} ${result.statusText} (${result.duration} ms)`
+}
+
+export async function listen(config: ClientConfig, uuid: string, options: { forward?: string; json?: boolean }) {
+  const controller = new AbortController()
+  process.on("SIGINT", () => controller.abort())
+
+  let connected = false
+  try {
+    await subscribe(
+      config,
+      uuid,
+      {
+        onConnect: () => {
+          if (connected) return
+          connected = true
+          console.error(`Listening for webhooks on ${new URL(`/api/webhook/${uuid}`, config.server)}`)
+          if (options.forward) {
+            console.error(`Forwarding to ${options.forward}`)
+          }
+          console.error("Press Ctrl+C to stop\n")
+        },
+        onEvent: async (event) => {
+          console.log(options.json ? JSON.stringify(event) : formatEventLine(event))
+          if (options.forward) {
+            const target = joinPath(options.forward, event.path)
+            const result = await forwardWebhook(target, toForwardRequest(event), { allowPrivate: true })
+            console.log(`  ${formatResult(result)}`)
+          }
+        },
+      },
+      controller.signal
+    )
+  } catch (error) {
+    if (!controller.signal.aborted) throw error
+  }
+}
+
+export async function listCommand(config: ClientConfig, endpoint: string, params: URLSearchParams, json?: boolean) {
+  const { events, nextCursor } = await listEvents(config, endpoint, params)
+  if (json) {
+    console.log(JSON.stringify({ events, nextCursor }, null, 2))
+    return
+  }
+
+  if (events.length === 0) {
+    console.error("No events")
+    return
+  }
+  for (const event of events) {
+    console.log(formatEventLine(event))
+  }
+  if (nextCursor) {
+    console.error(`\nMore events available: --cursor ${nextCursor}`)
+  }
+}
+
+export async function showCommand(config: ClientConfig, endpoint: string, eventId: string, raw?: boolean) {
+  const event = await getEvent(config, endpoint, eventId)
+  if (!raw) {
+    console.log(JSON.stringify(event, null, 2))
+    return
+  }
+
+  // Write the exact request body, e.g. for piping into a signature check
+  const { rawBody } = toForwardRequest(event)
+  if (rawBody) {
+    process.stdout.write(rawBody)
+  }
+}
+
+export async function replayCommand(config: ClientConfig, endpoint: string, eventId: string, target: string) {
+  const event = await getEvent(config, endpoint, eventId)
+  const result = await forwardWebhook(joinPath(target, event.path), toForwardRequest(event), { allowPrivate: true })
+  console.log(formatResult(result))
+  if (result.bodyEncoding === "base64") {
+    process.stdout.write(decodeRawBody(result.body!, "base64"))
+  } else if (result.body) {
+    console.log(result.body)
+  }
+  if (result.status === null || result.status >= 400) {
+    process.exitCode = 1
+  }
+}
+
+export async function exportCommand(
+  config: ClientConfig,
+  endpoint: string,
+  params: URLSearchParams,
+  options: { out?: string; format?: string }
+) {
+  const events: WebhookEvent[] = []
+  let cursor: string | null = null
+
+  // Follow cursors until the whole history has been read
+  do {
+    const pageParams = new URLSearchParams(params)
+    pageParams.set("limit", "100")
+    if (cursor) pageParams.set("cursor", cursor)
+    const page = await listEvents(config, endpoint, pageParams)
+    events.push(...page.events)
+    cursor = page.nextCursor
+  } while (cursor)
+
+  const output = options.format === "jsonl"
+    ? events.map((event) => JSON.stringify(event)).join("\n") + "\n"
+    : JSON.stringify(events, null, 2) + "\n"
+
+  if (options.out) {
+    await writeFile(options.out, output)
+    console.error(`Exported ${events.length} events to ${options.out}`)
+  } else {
+    process.stdout.write(output)
+  }
+}
@@ -0,0 +1,100 @@
+#!/usr/bin/env bun
+import { parseArgs } from "node:util"
+import { type ClientConfig } from "./client"
+import { exportCommand, listCommand, listen, replayCommand, showCommand } from "./commands"
+
+const USAGE = `Usage: ehook <command> [options]
+
+Commands:
+  listen <endpoint-id> [--forward <url>]       Print webhooks as they arrive and relay them to a local server
+  events list <endpoint> [filters]             List captured events, newest first
+  events show <endpoint> <event-id> [--raw]    Print an event as JSON, or only its raw body
+  events replay <endpoint> <event-id> --to <url>
+                                               Re-send an event to a URL and print the response
+  events export <endpoint> [filters] [--out <file>] [--format json|jsonl]
+                                               Write every matching event to a file
+
+Filters:
+  --method <method>  --header <name[:value]>  --match <jsonpath[=value]>
+  --provider <id>  --type <event-type>  --from <time>  --to <time>  --q <query>
+  --limit <n>  --cursor <cursor>
+
+Options:
+  --server <url>     eHook server (EHOOK_URL, default http://localhost:3000)
+  --api-key <key>    Endpoint API key (EHOOK_API_KEY), required for "events" commands
+  --json             Print JSON instead of one line per event
+`
+
+const FILTER_OPTIONS = ["method", "header", "match", "provider", "type", "from", "q", "limit", "cursor", "signature"] as const
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      server: { type: "string", default: process.env.EHOOK_URL || "http://localhost:3000" },
+      "api-key": { type: "string", default: process.env.EHOOK_API_KEY },
+      forward: { type: "string" },
+      to: { type: "string" },
+      out: { type: "string" },
+      format: { type: "string", default: "json" },
+      method: { type: "string" },
+      header: { type: "string" },
+      match: { type: "string" },
+      provider: { type: "string" },
+      type: { type: "string" },
+      from: { type: "string" },
+      q: { type: "string" },
+      limit: { type: "string" },
+      cursor: { type: "string" },
+      signature: { type: "string" },
+      raw: { type: "boolean" },
+      json: { type: "boolean" },
+      help: { type: "boolean", short: "h" },
+    },
+  })
+
+  const config: ClientConfig = { server: values.server!, apiKey: values["api-key"] }
+  const [command, subcommand, ...args] = positionals
+
+  // --to is the replay target, so the time filter upper bound is only read by list/export
+  const filters = new URLSearchParams()
+  for (const name of FILTER_OPTIONS) {
+    if (values[name]) filters.set(name, values[name])
+  }
+
+  if (values.help || !command) {
+    console.log(USAGE)
+    return
+  }
+
+  if (command === "listen" && subcommand) {
+    await listen(config, subcommand, { forward: values.forward, json: values.json })
+    return
+  }
+
+  const [endpoint, eventId] = args
+  if (command === "events" && endpoint) {
+    switch (subcommand) {
+      case "list":
+        if (values.to) filters.set("to", values.to)
+        return listCommand(config, endpoint, filters, values.json)
+      case "export":
+        if (values.to) filters.set("to", values.to)
+        return exportCommand(config, endpoint, filters, { out: values.out, format: values.format })
+      case "show":
+        if (eventId) return showCommand(config, endpoint, eventId, values.raw)
+        break
+      case "replay":
+        if (eventId && values.to) return replayCommand(config, endpoint, eventId, values.to)
+        break
+    }
+  }
+
+  console.error(USAGE)
+  process.exitCode = 1
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? `Error: ${error.message}` : error)
+  process.exitCode = 1
+})
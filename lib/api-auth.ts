@@ -0,0 +1,48 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto"
+import { NextRequest, NextResponse } from "next/server"
+import { redis } from "./redis"
+
+const API_KEY_PREFIX = "ehk_"
+
+export function getApiKeyKey(uuid: string) {
+  return `webhook:${uuid}:api-key`
+}
+
+function hashApiKey(apiKey: string) {
+  return createHash("sha256").update(apiKey).digest("hex")
+}
+
+// Only a hash is stored, so a key can be shown once and never read back
+export async function createApiKey(uuid: string) {
+  const apiKey = `${API_KEY_PREFIX}${randomBytes(24).toString("base64url")}`
+  await redis.set(getApiKeyKey(uuid), hashApiKey(apiKey))
+  return apiKey
+}
+
+function getRequestApiKey(request: NextRequest) {
+  const authorization = request.headers.get("authorization")
+  if (authorization?.toLowerCase().startsWith("bearer ")) {
+    return authorization.slice(7).trim()
+  }
+  return request.headers.get("x-api-key")
+}
+
+// Returns an error response when the request is not allowed to read the endpoint
+export async function authenticateApiRequest(request: NextRequest, uuid: string) {
+  const apiKey = getRequestApiKey(request)
+  if (!apiKey) {
+    return NextResponse.json(
+      { success: false, error: "Missing API key" },
+      { status: 401, headers: { "WWW-Authenticate": "Bearer" } }
+    )
+  }
+
+  const stored = await redis.get<string>(getApiKeyKey(uuid))
+  const expected = Buffer.from(stored ?? "", "hex")
+  const received = Buffer.from(hashApiKey(apiKey), "hex")
+  if (!stored || expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return NextResponse.json({ success: false, error: "Invalid API key" }, { status: 401 })
+  }
+
+  return null
+}
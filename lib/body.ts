@@ -0,0 +1,110 @@
+import { getMultipartFields, parseMultipart, type MultipartPart } from "./multipart"
+
+export type BodyEncoding = "utf8" | "base64"
+
+export type RawBody = {
+  data: string
+  encoding: BodyEncoding
+  size: number
+}
+
+function bytesToBase64(bytes: Uint8Array) {
+  let binary = ""
+  const chunkSize = 0x8000
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize))
+  }
+  return btoa(binary)
+}
+
+function base64ToBytes(data: string) {
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+// Store valid UTF-8 as-is and fall back to base64 for anything else (images, protobuf, gzip...)
+export function encodeRawBody(bytes: Uint8Array): RawBody {
+  try {
+    const text = new TextDecoder("utf-8", { fatal: true, ignoreBOM: true }).decode(bytes)
+    return { data: text, encoding: "utf8", size: bytes.length }
+  } catch {
+    return { data: bytesToBase64(bytes), encoding: "base64", size: bytes.length }
+  }
+}
+
+export function decodeRawBody(data: string, encoding: BodyEncoding): Uint8Array<ArrayBuffer> {
+  return encoding === "base64" ? base64ToBytes(data) : new TextEncoder().encode(data)
+}
+
+// Parse a UTF-8 body the same way regardless of whether the raw bytes are kept
+export function parseBody(text: string, contentType: string): unknown {
+  if (!text) return null
+
+  try {
+    if (contentType.includes("application/json")) {
+      return JSON.parse(text)
+    }
+    if (contentType.includes("application/x-www-form-urlencoded")) {
+      return Object.fromEntries(new URLSearchParams(text))
+    }
+    return text
+  } catch {
+    // If body parsing fails, set to null
+    return null
+  }
+}
+
+export function formatHexDump(bytes: Uint8Array, maxBytes = 64 * 1024) {
+  const lines: string[] = []
+  const length = Math.min(bytes.length, maxBytes)
+
+  for (let offset = 0; offset < length; offset += 16) {
+    const row = bytes.subarray(offset, Math.min(offset + 16, length))
+    const hex = Array.from(row, (byte) => byte.toString(16).padStart(2, "0")).join(" ")
+    const ascii = Array.from(row, (byte) => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : ".")).join("")
+    lines.push(`${offset.toString(16).padStart(8, "0")}  ${hex.padEnd(47)}  ${ascii}`)
+  }
+
+  if (bytes.length > maxBytes) {
+    lines.push(`... ${bytes.length - maxBytes} more bytes`)
+  }
+
+  return lines.join("\n")
+}
+
+export function formatBytes(size: number) {
+  if (size < 1024) return `${size} B`
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(2)} KB`
+  return `${(size / (1024 * 1024)).toFixed(2)} MB`
+}
+
+export type CapturedBody = {
+  body: unknown
+  rawBody: string | null
+  bodyEncoding: BodyEncoding
+  bodySize: number
+  parts?: MultipartPart[]
+}
+
+// Keep the exact bytes and a parsed view of them, the same way for received and imported requests
+export function captureBody(bytes: Uint8Array, contentType: string): CapturedBody {
+  const raw = bytes.length > 0 ? encodeRawBody(bytes) : null
+  const parts = contentType.includes("multipart/form-data") ? parseMultipart(bytes, contentType) : null
+  const body = parts
+    ? getMultipartFields(parts)
+    : raw?.encoding === "utf8"
+      ? parseBody(raw.data, contentType)
+      : null
+
+  return {
+    body,
+    rawBody: raw?.data ?? null,
+    bodyEncoding: raw?.encoding ?? "utf8",
+    bodySize: bytes.length,
+    ...(parts && { parts }),
+  }
+}
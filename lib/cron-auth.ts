@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server"
+
+// Returns an error response unless the request carries CRON_SECRET. Without the secret only
+// `npm run dev` may call cron routes, so a deployment that forgot to set it is not left open.
+export function authorizeCronRequest(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    if (process.env.NODE_ENV === "development") return null
+    return NextResponse.json({ success: false, error: "CRON_SECRET is not set" }, { status: 401 })
+  }
+  if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ success: false, error: "Unauthorized" }, { status: 401 })
+  }
+  return null
+}
@@ -0,0 +1,90 @@
+import { describe, test } from "node:test"
+import assert from "node:assert/strict"
+import { checkCron, getNextCronRun, getNextCronRuns } from "./cron"
+
+const utc = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  Date.UTC(year, month - 1, day, hour, minute)
+
+describe("getNextCronRun", () => {
+  test("returns the first match strictly after the given time", () => {
+    assert.equal(getNextCronRun("0 * * * *", utc(2024, 5, 1, 10)), utc(2024, 5, 1, 11))
+    assert.equal(getNextCronRun("0 * * * *", utc(2024, 5, 1, 10) + 30_000), utc(2024, 5, 1, 11))
+    assert.equal(getNextCronRun("* * * * *", utc(2024, 5, 1, 10, 59)), utc(2024, 5, 1, 11))
+  })
+
+  test("ranges", () => {
+    // Friday after hours runs next on Monday morning
+    assert.equal(getNextCronRun("0 9-17 * * 1-5", utc(2024, 2, 2, 17, 30)), utc(2024, 2, 5, 9))
+    assert.equal(getNextCronRun("0 9-17 * * mon-fri", utc(2024, 2, 5, 12, 1)), utc(2024, 2, 5, 13))
+  })
+
+  test("steps", () => {
+    assert.equal(getNextCronRun("*/15 * * * *", utc(2024, 5, 1, 10, 7)), utc(2024, 5, 1, 10, 15))
+    assert.equal(getNextCronRun("0 */6 * * *", utc(2024, 5, 1, 13)), utc(2024, 5, 1, 18))
+    assert.deepEqual(getNextCronRuns("5/20 * * * *", utc(2024, 5, 1, 10), 4), [
+      utc(2024, 5, 1, 10, 5),
+      utc(2024, 5, 1, 10, 25),
+      utc(2024, 5, 1, 10, 45),
+      utc(2024, 5, 1, 11, 5),
+    ])
+    assert.deepEqual(getNextCronRuns("0 0 1-10/3 * *", utc(2024, 5, 1), 3), [
+      utc(2024, 5, 4),
+      utc(2024, 5, 7),
+      utc(2024, 5, 10),
+    ])
+  })
+
+  test("matches either day field when both are restricted", () => {
+    // Fridays in September and October 2024, plus the 13th of each month (October 13th is a Sunday)
+    assert.deepEqual(getNextCronRuns("0 0 13 * 5", utc(2024, 9, 1), 7), [
+      utc(2024, 9, 6),
+      utc(2024, 9, 13),
+      utc(2024, 9, 20),
+      utc(2024, 9, 27),
+      utc(2024, 10, 4),
+      utc(2024, 10, 11),
+      utc(2024, 10, 13),
+    ])
+    // With one field left as *, only the other counts
+    assert.equal(getNextCronRun("0 0 13 * *", utc(2024, 9, 1)), utc(2024, 9, 13))
+    assert.equal(getNextCronRun("0 0 * * 5", utc(2024, 9, 7)), utc(2024, 9, 13))
+  })
+
+  test("treats 7 and sun as Sunday", () => {
+    const sunday = utc(2024, 9, 8, 8)
+    assert.equal(getNextCronRun("0 8 * * 7", utc(2024, 9, 6)), sunday)
+    assert.equal(getNextCronRun("0 8 * * sun", utc(2024, 9, 6)), sunday)
+  })
+
+  test("rolls over months and years", () => {
+    // February has no 31st, so the next run skips to March
+    assert.equal(getNextCronRun("0 0 31 * *", utc(2024, 1, 31)), utc(2024, 3, 31))
+    assert.equal(getNextCronRun("30 23 * * *", utc(2024, 12, 31, 23, 30)), utc(2025, 1, 1, 23, 30))
+    assert.equal(getNextCronRun("@yearly", utc(2024, 6, 1)), utc(2025, 1, 1))
+    // Leap days are years apart
+    assert.equal(getNextCronRun("0 12 29 2 *", utc(2025, 1, 1)), utc(2028, 2, 29, 12))
+  })
+
+  test("returns null for a date that never comes", () => {
+    assert.equal(getNextCronRun("0 0 31 2 *", utc(2024, 1, 1)), null)
+    assert.deepEqual(getNextCronRuns("0 0 30 2 *", utc(2024, 1, 1), 3), [])
+  })
+})
+
+describe("checkCron", () => {
+  test("accepts valid expressions and macros", () => {
+    for (const expression of ["* * * * *", "*/5 0-6,22-23 1,15 jan-jun mon-fri", "@hourly", " 0 0 * * 7 "]) {
+      assert.equal(checkCron(expression), null, expression)
+    }
+  })
+
+  test("describes what is wrong with an invalid expression", () => {
+    assert.match(checkCron("* * *") ?? "", /Expected 5 fields/)
+    assert.match(checkCron("60 * * * *") ?? "", /Invalid minute "60"/)
+    assert.match(checkCron("0 0 0 * *") ?? "", /Invalid day of month "0"/)
+    assert.match(checkCron("0 0 * 13 *") ?? "", /Invalid month "13"/)
+    assert.match(checkCron("0 0 * * funday") ?? "", /Invalid day of week "funday"/)
+    assert.match(checkCron("5-1 * * * *") ?? "", /Invalid range/)
+    assert.match(checkCron("*/0 * * * *") ?? "", /Invalid step/)
+  })
+})
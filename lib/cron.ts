@@ -0,0 +1,148 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week), evaluated in UTC
+
+type CronSchedule = {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  // Standard cron matches either day field when both are restricted
+  anyDayOfMonth: boolean
+  anyDayOfWeek: boolean
+}
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+}
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"]
+const DAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"]
+
+const FIELDS = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as another Sunday
+  { name: "day of week", min: 0, max: 7, names: DAY_NAMES },
+]
+
+// Give up looking for a match after this many days, e.g. for "0 0 31 2 *"
+const MAX_SEARCH_DAYS = 366 * 5
+
+function parseValue(value: string, field: (typeof FIELDS)[number]) {
+  const index = field.names?.indexOf(value.toLowerCase()) ?? -1
+  const number = index >= 0 ? index + field.min : /^\d+$/.test(value) ? Number(value) : NaN
+  if (!Number.isInteger(number) || number < field.min || number > field.max) {
+    throw new Error(`Invalid ${field.name} "${value}"`)
+  }
+  return number
+}
+
+function parseField(text: string, field: (typeof FIELDS)[number]) {
+  const values = new Set<number>()
+  for (const part of text.split(",")) {
+    const [range, stepText] = part.split("/")
+    const step = stepText === undefined ? 1 : Number(stepText)
+    if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid step in ${field.name} "${part}"`)
+
+    let start: number
+    let end: number
+    if (range === "*") {
+      start = field.min
+      end = field.max
+    } else if (range.includes("-")) {
+      const [from, to] = range.split("-")
+      start = parseValue(from, field)
+      end = parseValue(to, field)
+      if (start > end) throw new Error(`Invalid range in ${field.name} "${range}"`)
+    } else {
+      start = parseValue(range, field)
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : field.max
+    }
+
+    for (let value = start; value <= end; value += step) values.add(value)
+  }
+  return values
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim().toLowerCase()
+  const parts = (MACROS[trimmed] ?? trimmed).split(/\s+/)
+  if (parts.length !== 5) {
+    throw new Error("Expected 5 fields: minute hour day-of-month month day-of-week")
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]))
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0)
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2].startsWith("*"),
+    anyDayOfWeek: parts[4].startsWith("*"),
+  }
+}
+
+// Returns a message describing why an expression cannot be used, or null when it parses
+export function checkCron(expression: string) {
+  try {
+    parseCron(expression)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid cron expression"
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date) {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate())
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay())
+  if (schedule.anyDayOfMonth) return dayOfWeek
+  if (schedule.anyDayOfWeek) return dayOfMonth
+  return dayOfMonth || dayOfWeek
+}
+
+// First matching minute strictly after `after`, or null when the expression never matches
+export function getNextCronRun(expression: string, after: number) {
+  const schedule = parseCron(expression)
+  const start = new Date(Math.floor(after / 60_000) * 60_000 + 60_000)
+  const day = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()))
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    if (schedule.months.has(day.getUTCMonth() + 1) && matchesDay(schedule, day)) {
+      const firstDay = i === 0
+      for (let hour = firstDay ? start.getUTCHours() : 0; hour < 24; hour++) {
+        if (!schedule.hours.has(hour)) continue
+        const firstHour = firstDay && hour === start.getUTCHours()
+        for (let minute = firstHour ? start.getUTCMinutes() : 0; minute < 60; minute++) {
+          if (schedule.minutes.has(minute)) return day.getTime() + hour * 3_600_000 + minute * 60_000
+        }
+      }
+    }
+    day.setUTCDate(day.getUTCDate() + 1)
+  }
+  return null
+}
+
+// The next few run times, for previewing an expression before saving it
+export function getNextCronRuns(expression: string, after: number, count: number) {
+  const runs: number[] = []
+  let cursor = after
+  while (runs.length < count) {
+    const next = getNextCronRun(expression, cursor)
+    if (next === null) break
+    runs.push(next)
+    cursor = next
+  }
+  return runs
+}
@@ -0,0 +1,19 @@
+import { type EditorProps } from "@monaco-editor/react"
+
+// Shared read-only Monaco configuration for payload views
+export const EDITOR_OPTIONS: EditorProps["options"] = {
+  readOnly: true,
+  minimap: { enabled: false },
+  scrollBeyondLastLine: false,
+  fontSize: 13,
+  lineNumbers: "on",
+  folding: true,
+  wordWrap: "on",
+  automaticLayout: true,
+  contextmenu: true,
+  find: {
+    addExtraSpaceOnTop: false,
+    autoFindInSelection: "never",
+    seedSearchStringFromSelection: "never",
+  },
+}
@@ -0,0 +1,113 @@
+import { redis } from "./redis"
+import { IDLE_TTL_SECONDS, normalizeRetention, type RetentionSettings } from "./retention"
+import {
+  getEventDataKey,
+  getEventIndexKey,
+  getEventSizes,
+  getMigratedKey,
+  migrateLegacyEvents,
+  removeEvents,
+} from "./event-store"
+import { getApiKeyKey } from "./api-auth"
+
+// Scheduled jobs can fall due long after the endpoint was last used, so saveJob keeps them past
+// their next run and activity only ever lengthens their expiry
+function getJobKeys(uuid: string) {
+  return [`webhook:${uuid}:jobs`, `webhook:${uuid}:job-runs`]
+}
+
+// Which vanity slug the endpoint holds, so its slug:{slug} claim can expire along with it
+export function getEndpointSlugKey(uuid: string) {
+  return `webhook:${uuid}:slug`
+}
+
+// Total size of the kept events as of the last time retention measured it
+export function getEventBytesKey(uuid: string) {
+  return `webhook:${uuid}:bytes`
+}
+
+// Every key that belongs to one endpoint and should expire with it
+export function getEndpointKeys(uuid: string) {
+  return [
+    getEventIndexKey(uuid),
+    getEventDataKey(uuid),
+    getMigratedKey(uuid),
+    getEventBytesKey(uuid),
+    `webhook:${uuid}:settings`,
+    `webhook:${uuid}:replays`,
+    `webhook:${uuid}:attempts`,
+    `webhook:${uuid}:searches`,
+    `webhook:${uuid}:sends`,
+    ...getJobKeys(uuid),
+    getEndpointSlugKey(uuid),
+    getApiKeyKey(uuid),
+  ]
+}
+
+// Push back the idle expiry and record activity so the sweep can find the endpoint
+export async function touchEndpoint(uuid: string) {
+  const slug = await redis.get<string>(getEndpointSlugKey(uuid))
+  const jobKeys = getJobKeys(uuid)
+  const pipeline = redis.pipeline()
+  for (const key of getEndpointKeys(uuid)) {
+    pipeline.expire(key, IDLE_TTL_SECONDS, jobKeys.includes(key) ? "GT" : undefined)
+  }
+  if (slug !== null) {
+    pipeline.expire(`slug:${slug}`, IDLE_TTL_SECONDS)
+  }
+  pipeline.zadd("webhook:index", { score: Date.now(), member: uuid })
+  await pipeline.exec()
+}
+
+// Trim an endpoint's history by age, then count, then total size. Measuring walks every event, so it
+// only happens under a size limit or when asked to, e.g. by the cron sweep
+export async function enforceRetention(
+  uuid: string,
+  settings?: Partial<RetentionSettings>,
+  { measure = false } = {}
+) {
+  const retention = normalizeRetention(settings)
+  const indexKey = getEventIndexKey(uuid)
+
+  await migrateLegacyEvents(uuid)
+
+  if (retention.maxAgeHours > 0) {
+    const cutoff = Date.now() - retention.maxAgeHours * 60 * 60 * 1000
+    await removeEvents(uuid, await redis.zrange<string[]>(indexKey, 0, cutoff, { byScore: true }))
+  }
+
+  const count = await redis.zcard(indexKey)
+  if (count > retention.maxEvents) {
+    await removeEvents(uuid, await redis.zrange<string[]>(indexKey, 0, count - retention.maxEvents - 1))
+  }
+
+  if (retention.maxBytes > 0 || measure) {
+    // Walk newest to oldest and drop everything past the byte budget
+    const ids = await redis.zrange<string[]>(indexKey, 0, -1, { rev: true })
+    const sizes = await getEventSizes(uuid, ids)
+    let total = 0
+    let keep = 0
+    for (const size of sizes) {
+      if (retention.maxBytes > 0 && total + size > retention.maxBytes) break
+      total += size
+      keep++
+    }
+    await removeEvents(uuid, ids.slice(keep))
+    await redis.set(getEventBytesKey(uuid), total, { ex: IDLE_TTL_SECONDS })
+  }
+}
+
+// Apply retention to every endpoint that has been active within the idle window
+export async function sweepRetention(getSettings: (uuid: string) => Promise<Partial<RetentionSettings> | undefined>) {
+  const idleCutoff = Date.now() - IDLE_TTL_SECONDS * 1000
+
+  // Endpoints idle past the TTL have already been expired by Redis
+  const expired = await redis.zremrangebyscore("webhook:index", 0, idleCutoff)
+  const uuids = await redis.zrange<string[]>("webhook:index", 0, -1)
+
+  for (const uuid of uuids) {
+    await enforceRetention(uuid, await getSettings(uuid), { measure: true })
+  }
+
+  return { swept: uuids.length, expired }
+}
@@ -0,0 +1,85 @@
+import { type WebhookEvent } from "@/app/actions/webhook"
+import { appendPathKey } from "./jsonpath"
+
+export type DiffSection = "headers" | "query" | "body"
+
+export type DiffChange = {
+  section: DiffSection
+  // JSONPath to the changed value, e.g. $.body.data.object.status
+  path: string
+  kind: "added" | "removed" | "changed"
+  before?: unknown
+  after?: unknown
+}
+
+// The parts of an event worth comparing; binary bodies compare by their base64 text
+export function getDiffDocument(event: WebhookEvent): Record<DiffSection, unknown> {
+  const body = event.body ?? (event.rawBody || null)
+  return {
+    headers: event.headers,
+    query: event.query,
+    body,
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function diffValues(section: DiffSection, before: unknown, after: unknown, path: string, changes: DiffChange[]) {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort()
+    for (const key of keys) {
+      const childPath = appendPathKey(path, key)
+      if (!(key in before)) {
+        changes.push({ section, path: childPath, kind: "added", after: after[key] })
+      } else if (!(key in after)) {
+        changes.push({ section, path: childPath, kind: "removed", before: before[key] })
+      } else {
+        diffValues(section, before[key], after[key], childPath, changes)
+      }
+    }
+    return
+  }
+
+  if (Array.isArray(before) && Array.isArray(after)) {
+    for (let i = 0; i < Math.max(before.length, after.length); i++) {
+      const childPath = `${path}[${i}]`
+      if (i >= before.length) {
+        changes.push({ section, path: childPath, kind: "added", after: after[i] })
+      } else if (i >= after.length) {
+        changes.push({ section, path: childPath, kind: "removed", before: before[i] })
+      } else {
+        diffValues(section, before[i], after[i], childPath, changes)
+      }
+    }
+    return
+  }
+
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ section, path, kind: "changed", before, after })
+  }
+}
+
+export function diffEvents(before: WebhookEvent, after: WebhookEvent): DiffChange[] {
+  const beforeDocument = getDiffDocument(before)
+  const afterDocument = getDiffDocument(after)
+  const changes: DiffChange[] = []
+  for (const section of ["headers", "query", "body"] as const) {
+    diffValues(section, beforeDocument[section], afterDocument[section], `$.${section}`, changes)
+  }
+  return changes
+}
+
+// Sort object keys so the text diff lines up the same fields on both sides
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys)
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.keys(value).sort().map((key) => [key, sortKeys(value[key])]))
+  }
+  return value
+}
+
+export function formatDiffDocument(event: WebhookEvent) {
+  return JSON.stringify(sortKeys(getDiffDocument(event)), null, 2)
+}
@@ -0,0 +1,134 @@
+import { type WebhookEvent } from "@/app/actions/webhook"
+import { queryJsonPath } from "./jsonpath"
+import { matchesEventQuery, parseEventQuery, type QueryNode } from "./event-query"
+import { decodeProvider } from "./providers"
+
+export type SignatureFilter = "all" | "valid" | "invalid" | "unverified" | "unsigned"
+
+const SIGNATURE_FILTERS: SignatureFilter[] = ["all", "valid", "invalid", "unverified", "unsigned"]
+
+export type EventFilter = {
+  // Query language, e.g. "method:POST body.action=opened -is:starred"; bare words match anywhere
+  search?: string
+  method?: string
+  // "name" requires the header, "name: value" also matches its value
+  header?: string
+  signature?: SignatureFilter
+  starred?: boolean
+  // Provider id from the registry, e.g. "github"
+  provider?: string
+  // Decoded event type; a trailing "*" matches a prefix, e.g. "invoice.*"
+  eventType?: string
+  // JSONPath into the parsed body, "$.type" requires a value and "$.type=invoice.paid" compares it
+  match?: string
+  // Inclusive timestamp range in milliseconds
+  from?: number
+  to?: number
+}
+
+export function isFilterActive(filter: EventFilter) {
+  return Boolean(
+    filter.search?.trim() ||
+    filter.method ||
+    filter.header?.trim() ||
+    (filter.signature && filter.signature !== "all") ||
+    filter.starred ||
+    filter.provider ||
+    filter.eventType?.trim() ||
+    filter.match?.trim() ||
+    filter.from ||
+    filter.to
+  )
+}
+
+function stringify(value: unknown) {
+  return (typeof value === "string" ? value : JSON.stringify(value ?? "")).toLowerCase()
+}
+
+function matchesHeader(event: WebhookEvent, header: string) {
+  const separator = header.indexOf(":")
+  const name = (separator === -1 ? header : header.slice(0, separator)).trim().toLowerCase()
+  const value = separator === -1 ? null : header.slice(separator + 1).trim().toLowerCase()
+
+  return Object.entries(event.headers).some(
+    ([key, headerValue]) => key.toLowerCase() === name && (value === null || stringify(headerValue).includes(value))
+  )
+}
+
+function matchesJsonPath(event: WebhookEvent, match: string) {
+  const [, path, expected] = match.match(/^([^=]*?)\s*(?:==?\s*(.*))?$/) ?? []
+  try {
+    const values = queryJsonPath(event.body, path.trim())
+      .filter((value) => value !== undefined)
+      .map((value) => (typeof value === "string" ? value : JSON.stringify(value)))
+    return expected === undefined ? values.length > 0 : values.includes(expected.trim())
+  } catch {
+    return false
+  }
+}
+
+function matchesEventType(eventType: string | undefined, expected: string) {
+  if (!eventType) return false
+  return expected.endsWith("*") ? eventType.startsWith(expected.slice(0, -1)) : eventType === expected
+}
+
+// Build the check once per request, so a page scan parses its search a single time for hundreds of events
+export function createEventMatcher(filter: EventFilter) {
+  const search = filter.search?.trim()
+  const query: QueryNode | null = search ? parseEventQuery(search) : null
+  const eventType = filter.eventType?.trim()
+
+  return (event: WebhookEvent) => {
+    if (filter.from && event.timestamp < filter.from) return false
+    if (filter.to && event.timestamp > filter.to) return false
+    if (filter.starred && !event.starred) return false
+    if (filter.method && event.method.toUpperCase() !== filter.method.toUpperCase()) return false
+
+    if (filter.signature && filter.signature !== "all") {
+      const matches = filter.signature === "unsigned"
+        ? !event.signature
+        : event.signature?.status === filter.signature
+      if (!matches) return false
+    }
+
+    if (filter.provider || eventType) {
+      const details = decodeProvider(event)
+      if (filter.provider && details?.provider !== filter.provider) return false
+      if (eventType && !matchesEventType(details?.eventType, eventType)) return false
+    }
+
+    if (filter.header?.trim() && !matchesHeader(event, filter.header)) return false
+    if (filter.match?.trim() && !matchesJsonPath(event, filter.match)) return false
+    if (query && !matchesEventQuery(event, query)) return false
+
+    return true
+  }
+}
+
+export function matchesEventFilter(event: WebhookEvent, filter: EventFilter) {
+  return createEventMatcher(filter)(event)
+}
+
+// Accepts epoch milliseconds or anything Date can parse, e.g. ISO 8601
+export function parseTime(value: string | null) {
+  if (!value) return undefined
+  const time = /^\d+$/.test(value) ? Number(value) : new Date(value).getTime()
+  return Number.isFinite(time) ? time : undefined
+}
+
+// Read a filter from query parameters: ?method=POST&header=x-github-event:push&match=$.action=opened&provider=github&type=push&from=...&q=...
+export function parseEventFilter(params: URLSearchParams): EventFilter {
+  const signature = params.get("signature")
+  return {
+    search: params.get("q") || undefined,
+    method: params.get("method") || undefined,
+    header: params.get("header") || undefined,
+    signature: SIGNATURE_FILTERS.includes(signature as SignatureFilter) ? signature as SignatureFilter : undefined,
+    starred: params.get("starred") === "true" || undefined,
+    provider: params.get("provider") || undefined,
+    eventType: params.get("type") || undefined,
+    match: params.get("match") || undefined,
+    from: parseTime(params.get("from")),
+    to: parseTime(params.get("to")),
+  }
+}
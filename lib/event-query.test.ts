@@ -0,0 +1,119 @@
+import { describe, test } from "node:test"
+import assert from "node:assert/strict"
+import { type WebhookEvent } from "@/app/actions/webhook"
+import { matchesEventQuery, parseEventQuery } from "./event-query"
+
+const text = (value: string) => ({ type: "text", value })
+const field = (name: string, operator: string, value: string) => ({ type: "field", field: name, operator, value })
+
+const event: WebhookEvent = {
+  id: "evt-1",
+  uuid: "endpoint",
+  method: "POST",
+  url: "https://example.com/api/webhook/endpoint/orders",
+  path: "/orders",
+  headers: { "content-type": "application/json", "x-github-event": "push" },
+  query: { page: "2" },
+  body: { action: "opened", amount: 42, customer: { name: "Jane Doe" } },
+  timestamp: Date.now() - 5 * 60 * 1000,
+  response: { status: 502 },
+  starred: true,
+}
+
+const matches = (query: string) => {
+  const node = parseEventQuery(query)
+  assert.ok(node, `"${query}" should parse`)
+  return matchesEventQuery(event, node)
+}
+
+describe("parseEventQuery", () => {
+  test("reads fields, operators and free text", () => {
+    assert.deepEqual(parseEventQuery("method:POST"), field("method", ":", "POST"))
+    assert.deepEqual(parseEventQuery("status>=500"), field("status", ">=", "500"))
+    assert.deepEqual(parseEventQuery("status:>=500"), field("status", ">=", "500"))
+    assert.deepEqual(parseEventQuery("body.action!=closed"), field("body.action", "!=", "closed"))
+    assert.deepEqual(parseEventQuery("hello"), text("hello"))
+    // Unknown fields are plain text
+    assert.deepEqual(parseEventQuery("color:red"), text("color:red"))
+  })
+
+  test("quoting", () => {
+    assert.deepEqual(parseEventQuery('"two words"'), text("two words"))
+    // A leading quote makes the whole term literal text
+    assert.deepEqual(parseEventQuery('"method:POST"'), text("method:POST"))
+    // Quotes after an operator only group the value
+    assert.deepEqual(parseEventQuery('body.customer.name="Jane Doe"'), field("body.customer.name", "=", "Jane Doe"))
+    assert.deepEqual(parseEventQuery('"OR"'), text("OR"))
+    // An unterminated quote runs to the end of the input
+    assert.deepEqual(parseEventQuery('"open ended'), text("open ended"))
+  })
+
+  test("negation", () => {
+    assert.deepEqual(parseEventQuery("-is:starred"), { type: "not", node: field("is", ":", "starred") })
+    assert.deepEqual(parseEventQuery("NOT push"), { type: "not", node: text("push") })
+    assert.deepEqual(parseEventQuery("--push"), { type: "not", node: { type: "not", node: text("push") } })
+    // A hyphen inside a word or followed by a space is not negation
+    assert.deepEqual(parseEventQuery("x-github-event"), text("x-github-event"))
+    assert.deepEqual(parseEventQuery("- push"), { type: "and", nodes: [text("-"), text("push")] })
+  })
+
+  test("AND binds tighter than OR, and parentheses group", () => {
+    assert.deepEqual(parseEventQuery("a OR b c"), {
+      type: "or",
+      nodes: [text("a"), { type: "and", nodes: [text("b"), text("c")] }],
+    })
+    assert.deepEqual(parseEventQuery("(a OR b) AND c"), {
+      type: "and",
+      nodes: [{ type: "or", nodes: [text("a"), text("b")] }, text("c")],
+    })
+  })
+
+  test("tolerates incomplete and invalid input", () => {
+    for (const query of ["", "   ", "method:", "NOT", "-", "()", ")", "OR", "AND AND", '""']) {
+      const node = parseEventQuery(query)
+      assert.ok(node === null || node.type === "text", `"${query}" parsed to ${JSON.stringify(node)}`)
+    }
+    assert.deepEqual(parseEventQuery("(a OR b"), { type: "or", nodes: [text("a"), text("b")] })
+    assert.deepEqual(parseEventQuery("a) b"), { type: "and", nodes: [text("a"), text("b")] })
+    assert.deepEqual(parseEventQuery("a OR"), text("a"))
+  })
+})
+
+describe("matchesEventQuery", () => {
+  test("fields and free text", () => {
+    assert.equal(matches("method:post"), true)
+    assert.equal(matches("header:x-github-event=push"), true)
+    assert.equal(matches("path:/ord*"), true)
+    assert.equal(matches("query.page=2"), true)
+    assert.equal(matches("jane"), true)
+    assert.equal(matches('"Jane Doe"'), true)
+    assert.equal(matches("bob"), false)
+  })
+
+  test("numeric and status ranges", () => {
+    assert.equal(matches("status:5xx"), true)
+    assert.equal(matches("status:4xx"), false)
+    assert.equal(matches("status>=500 status<503"), true)
+    assert.equal(matches("body.amount>41"), true)
+    assert.equal(matches("body.amount<=41"), false)
+    // Comparing against something that is not a number never matches
+    assert.equal(matches("body.amount>lots"), false)
+    assert.equal(matches("body.action>1"), false)
+  })
+
+  test("time ranges", () => {
+    assert.equal(matches("after:10m"), true)
+    assert.equal(matches("after:1m"), false)
+    assert.equal(matches("before:1m"), true)
+    assert.equal(matches("after:not-a-date"), false)
+  })
+
+  test("negation and boolean operators", () => {
+    assert.equal(matches("-method:GET"), true)
+    assert.equal(matches("-is:starred"), false)
+    assert.equal(matches("is!=starred"), false)
+    assert.equal(matches("method:GET OR body.action=opened"), true)
+    assert.equal(matches("method:GET body.action=opened"), false)
+    assert.equal(matches("NOT (method:GET OR status:2xx)"), true)
+  })
+})
@@ -0,0 +1,445 @@
+import { type WebhookEvent } from "@/app/actions/webhook"
+import { appendPathKey, queryJsonPath } from "./jsonpath"
+import { decodeProvider, WEBHOOK_PROVIDERS } from "./providers"
+
+// Search syntax for the inbox and the ?q= API parameter:
+//   method:POST header:x-github-event=push body.action=opened status:4xx after:10m
+//   free text, "quoted phrases", -negation, NOT, OR, AND (implied) and (parentheses)
+
+type Operator = ":" | "=" | "!=" | ">" | ">=" | "<" | "<="
+
+export type QueryNode =
+  | { type: "and"; nodes: QueryNode[] }
+  | { type: "or"; nodes: QueryNode[] }
+  | { type: "not"; node: QueryNode }
+  | { type: "text"; value: string }
+  | { type: "field"; field: string; operator: Operator; value: string }
+
+type Token =
+  | { type: "open" }
+  | { type: "close" }
+  | { type: "not" }
+  | { type: "or" }
+  | { type: "and" }
+  | { type: "term"; text: string; quoted: boolean }
+
+const QUERY_FIELDS = ["method", "status", "header", "body", "query", "path", "url", "id", "is", "signature", "schema", "provider", "type", "after", "before"]
+
+// Values offered by autocomplete for fields with a fixed vocabulary
+const FIELD_VALUES: Record<string, string[]> = {
+  method: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS", "HEAD"],
+  status: ["2xx", "3xx", "4xx", "5xx"],
+  is: ["starred", "noted", "signed", "forwarded", "binary"],
+  signature: ["valid", "invalid", "unverified", "unsigned"],
+  schema: ["valid", "invalid", "error", "none"],
+  provider: [...WEBHOOK_PROVIDERS.map((provider) => provider.id), "none"],
+  after: ["5m", "1h", "24h", "7d"],
+  before: ["5m", "1h", "24h", "7d"],
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < input.length) {
+    const char = input[i]
+    if (/\s/.test(char)) {
+      i++
+    } else if (char === "(" || char === ")") {
+      tokens.push({ type: char === "(" ? "open" : "close" })
+      i++
+    } else if (char === "-" && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      tokens.push({ type: "not" })
+      i++
+    } else {
+      // Read up to whitespace or a paren, keeping quoted sections whole.
+      // A leading quote makes the term literal text; quotes after an operator only group the value.
+      const quoted = char === '"'
+      let text = ""
+      while (i < input.length && !/[\s()]/.test(input[i])) {
+        if (input[i] === '"') {
+          const end = input.indexOf('"', i + 1)
+          const close = end === -1 ? input.length : end
+          text += input.slice(i + 1, close)
+          i = close + 1
+        } else {
+          text += input[i++]
+        }
+      }
+      if (!quoted && (text === "OR" || text === "AND" || text === "NOT")) {
+        tokens.push({ type: text === "OR" ? "or" : text === "AND" ? "and" : "not" })
+      } else {
+        tokens.push({ type: "term", text, quoted })
+      }
+    }
+  }
+
+  return tokens
+}
+
+function isKnownField(field: string) {
+  return QUERY_FIELDS.includes(field) || /^(body|query)[.[]/.test(field) || field.startsWith("$")
+}
+
+function parseTerm(token: { text: string; quoted: boolean }): QueryNode | null {
+  if (!token.quoted) {
+    const [, field, separator, rest] = token.text.match(/^([A-Za-z$][^:=!<>]*?)(:|!=|>=|<=|=|>|<)(.*)$/) ?? []
+    if (field && isKnownField(field.toLowerCase())) {
+      // "status:>=500" reads the same as "status>=500"
+      const [, operator, value] = separator === ":" ? rest.match(/^(!=|>=|<=|>|<|=)?([\s\S]*)$/) ?? [] : [, separator, rest]
+      // A field still being typed, e.g. "method:", does not filter anything yet
+      return value ? { type: "field", field, operator: (operator ?? ":") as Operator, value } : null
+    }
+  }
+  return token.text ? { type: "text", value: token.text } : null
+}
+
+// Recursive descent over OR > AND > NOT; unbalanced parens are tolerated while typing
+export function parseEventQuery(input: string): QueryNode | null {
+  const tokens = tokenize(input)
+  let position = 0
+
+  const parseOr = (): QueryNode | null => {
+    const nodes: QueryNode[] = []
+    let node = parseAnd()
+    if (node) nodes.push(node)
+    while (tokens[position]?.type === "or") {
+      position++
+      node = parseAnd()
+      if (node) nodes.push(node)
+    }
+    return nodes.length > 1 ? { type: "or", nodes } : nodes[0] ?? null
+  }
+
+  const parseAnd = (): QueryNode | null => {
+    const nodes: QueryNode[] = []
+    while (position < tokens.length && tokens[position].type !== "or" && tokens[position].type !== "close") {
+      if (tokens[position].type === "and") {
+        position++
+        continue
+      }
+      const node = parseUnary()
+      if (node) nodes.push(node)
+    }
+    return nodes.length > 1 ? { type: "and", nodes } : nodes[0] ?? null
+  }
+
+  const parseUnary = (): QueryNode | null => {
+    const token = tokens[position++]
+    if (token.type === "not") {
+      const node = position < tokens.length ? parseUnary() : null
+      return node ? { type: "not", node } : null
+    }
+    if (token.type === "open") {
+      const node = parseOr()
+      if (tokens[position]?.type === "close") position++
+      return node
+    }
+    return token.type === "term" ? parseTerm(token) : null
+  }
+
+  const nodes: QueryNode[] = []
+  while (position < tokens.length) {
+    const node = parseOr()
+    if (node) nodes.push(node)
+    // Skip a stray closing paren and keep going
+    if (tokens[position]?.type === "close") position++
+  }
+  return nodes.length > 1 ? { type: "and", nodes } : nodes[0] ?? null
+}
+
+function stringify(value: unknown) {
+  return typeof value === "string" ? value : JSON.stringify(value ?? "")
+}
+
+// "*" matches any run of characters; comparisons ignore case
+function matchesGlob(value: string, pattern: string) {
+  if (!pattern.includes("*")) return value.toLowerCase() === pattern.toLowerCase()
+  const source = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join("[\\s\\S]*")
+  return new RegExp(`^${source}$`, "i").test(value)
+}
+
+function compare(values: unknown[], operator: Operator, expected: string): boolean {
+  if (operator === "!=") return !compare(values, "=", expected)
+  if (operator === ":" || operator === "=") {
+    return values.some((value) => value !== undefined && matchesGlob(stringify(value), expected))
+  }
+
+  const target = Number(expected)
+  if (!Number.isFinite(target)) return false
+  return values.some((value) => {
+    const number = Number(value)
+    if (typeof value === "boolean" || value === null || value === "" || !Number.isFinite(number)) return false
+    switch (operator) {
+      case ">":
+        return number > target
+      case ">=":
+        return number >= target
+      case "<":
+        return number < target
+      case "<=":
+        return number <= target
+    }
+  })
+}
+
+// "10m", "2h", "7d" are relative to now; anything else is parsed as a date
+function parseQueryTime(value: string) {
+  const relative = value.match(/^(\d+)(s|m|h|d|w)$/)
+  if (relative) {
+    const unit = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 }[relative[2] as "s" | "m" | "h" | "d" | "w"]
+    return Date.now() - Number(relative[1]) * unit * 1000
+  }
+  const time = /^\d+$/.test(value) ? Number(value) : new Date(value).getTime()
+  return Number.isFinite(time) ? time : null
+}
+
+function matchesStatus(status: number | undefined, operator: Operator, expected: string) {
+  if (status === undefined) return operator === "!="
+  // "4xx" is shorthand for 400-499
+  const range = expected.match(/^([1-5])xx$/i)
+  if (range && (operator === ":" || operator === "=" || operator === "!=")) {
+    const matches = Math.floor(status / 100) === Number(range[1])
+    return operator === "!=" ? !matches : matches
+  }
+  return compare([status], operator, expected)
+}
+
+function matchesHeaderTerm(event: WebhookEvent, expression: string) {
+  const [, name, operator, expected] = expression.match(/^([^=!<>:]+)(?:(!=|=|:)(.*))?$/) ?? []
+  if (!name) return false
+  const values = Object.entries(event.headers)
+    .filter(([key]) => key.toLowerCase() === name.trim().toLowerCase())
+    .map(([, value]) => value)
+  if (!operator) return values.length > 0
+  return compare(values, operator as Operator, expected)
+}
+
+function matchesIs(event: WebhookEvent, value: string) {
+  switch (value.toLowerCase()) {
+    case "starred":
+      return Boolean(event.starred)
+    case "noted":
+      return Boolean(event.note?.trim())
+    case "signed":
+      return Boolean(event.signature)
+    case "forwarded":
+      return Boolean(event.forward)
+    case "binary":
+      return event.bodyEncoding === "base64"
+    default:
+      return false
+  }
+}
+
+// body.data.id and $.data.id both address the parsed body; query.page addresses a query parameter
+function queryField(data: unknown, field: string, prefix: string) {
+  const path = field.startsWith("$") ? field : `$${field.slice(prefix.length)}`
+  try {
+    return queryJsonPath(data, path)
+  } catch {
+    return []
+  }
+}
+
+function matchesField(event: WebhookEvent, node: Extract<QueryNode, { type: "field" }>) {
+  const { operator, value } = node
+  const field = node.field.toLowerCase()
+
+  switch (field) {
+    case "method":
+      return compare([event.method], operator, value)
+    case "status":
+      return matchesStatus(event.response?.status, operator, value)
+    case "header":
+      return matchesHeaderTerm(event, value)
+    case "path":
+      return compare([event.path || "/"], operator, value)
+    case "url":
+      return compare([event.url], operator, value)
+    case "id":
+      return compare([event.id], operator, value)
+    case "is":
+      return operator === "!=" ? !matchesIs(event, value) : matchesIs(event, value)
+    case "signature": {
+      const status = event.signature?.status ?? "unsigned"
+      return compare([status], operator, value)
+    }
+    case "schema":
+      return compare([event.validation?.status ?? "none"], operator, value)
+    case "provider":
+      return compare([decodeProvider(event)?.provider ?? "none"], operator, value)
+    case "type":
+      return compare([decodeProvider(event)?.eventType], operator, value)
+    case "after":
+    case "before": {
+      const time = parseQueryTime(value)
+      if (time === null) return false
+      return field === "after" ? event.timestamp >= time : event.timestamp <= time
+    }
+    case "body":
+      return compare([event.body], operator, value)
+    case "query":
+      return matchesHeaderTerm({ ...event, headers: event.query }, value)
+  }
+
+  if (field.startsWith("query")) {
+    return compare(queryField(event.query, node.field, "query"), operator, value)
+  }
+  return compare(queryField(event.body, node.field, "body"), operator, value)
+}
+
+function matchesText(event: WebhookEvent, text: string) {
+  const query = text.toLowerCase()
+  return (
+    event.method.toLowerCase().includes(query) ||
+    event.url.toLowerCase().includes(query) ||
+    stringify(event.headers).toLowerCase().includes(query) ||
+    stringify(event.query).toLowerCase().includes(query) ||
+    (event.body ? stringify(event.body).toLowerCase().includes(query) : false) ||
+    event.id.toLowerCase().includes(query) ||
+    (event.note?.toLowerCase().includes(query) ?? false)
+  )
+}
+
+export function matchesEventQuery(event: WebhookEvent, node: QueryNode): boolean {
+  switch (node.type) {
+    case "and":
+      return node.nodes.every((child) => matchesEventQuery(event, child))
+    case "or":
+      return node.nodes.some((child) => matchesEventQuery(event, child))
+    case "not":
+      return !matchesEventQuery(event, node.node)
+    case "text":
+      return matchesText(event, node.value)
+    case "field":
+      return matchesField(event, node)
+  }
+}
+
+export type QueryVocabulary = {
+  // Header name -> a few values seen for it
+  headers: Map<string, Set<string>>
+  // body.path -> a few scalar values seen at it
+  bodyPaths: Map<string, Set<string>>
+  // Decoded provider event types, e.g. "pull_request.opened"
+  eventTypes: Set<string>
+}
+
+const MAX_VOCABULARY_VALUES = 10
+const MAX_BODY_DEPTH = 4
+
+function remember(map: Map<string, Set<string>>, key: string, value?: unknown) {
+  const values = map.get(key) ?? new Set<string>()
+  map.set(key, values)
+  if (value !== undefined && value !== null && typeof value !== "object" && values.size < MAX_VOCABULARY_VALUES) {
+    values.add(String(value))
+  }
+}
+
+function collectBodyPaths(value: unknown, path: string, depth: number, map: Map<string, Set<string>>) {
+  if (depth > MAX_BODY_DEPTH) return
+  if (Array.isArray(value)) {
+    // Any element can be addressed with [*], so describe them together
+    for (const item of value.slice(0, MAX_VOCABULARY_VALUES)) {
+      collectBodyPaths(item, `${path}[*]`, depth + 1, map)
+    }
+    return
+  }
+  if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = appendPathKey(path, key)
+      remember(map, childPath, child)
+      collectBodyPaths(child, childPath, depth + 1, map)
+    }
+  }
+}
+
+// Learn header names, body keys and sample values from the events already loaded
+export function buildQueryVocabulary(events: WebhookEvent[]): QueryVocabulary {
+  const vocabulary: QueryVocabulary = { headers: new Map(), bodyPaths: new Map(), eventTypes: new Set() }
+  for (const event of events) {
+    for (const [name, value] of Object.entries(event.headers)) {
+      remember(vocabulary.headers, name.toLowerCase(), value)
+    }
+    collectBodyPaths(event.body, "body", 1, vocabulary.bodyPaths)
+    const eventType = decodeProvider(event)?.eventType
+    if (eventType) vocabulary.eventTypes.add(eventType)
+  }
+  return vocabulary
+}
+
+export type QuerySuggestion = {
+  value: string
+  description?: string
+}
+
+export type QuerySuggestions = {
+  // The span of the input that a suggestion replaces
+  from: number
+  to: number
+  items: QuerySuggestion[]
+}
+
+const FIELD_DESCRIPTIONS: Record<string, string> = {
+  "method:": "HTTP method",
+  "status:": "Response status, e.g. 4xx or >=500",
+  "header:": "Header name, optionally =value",
+  "body.": "JSONPath into the body",
+  "query.": "Query parameter",
+  "path:": "Sub-path, * as wildcard",
+  "url:": "Full URL, * as wildcard",
+  "id:": "Event id",
+  "is:": "starred, noted, signed, forwarded or binary",
+  "signature:": "Signature status",
+  "schema:": "JSON Schema result: valid, invalid, error or none",
+  "provider:": "github, stripe, shopify, slack...",
+  "type:": "Provider event type, e.g. invoice.*",
+  "after:": "e.g. 10m, 24h or a date",
+  "before:": "e.g. 1h or a date",
+}
+
+const MAX_SUGGESTIONS = 8
+
+function suggestValues(prefix: string, partial: string, values: Iterable<string>) {
+  const lower = partial.toLowerCase()
+  return [...values]
+    .filter((value) => value.toLowerCase().startsWith(lower) && value.toLowerCase() !== lower)
+    .map((value) => ({ value: `${prefix}${/[\s()"]/.test(value) ? `"${value}"` : value}` }))
+}
+
+// Complete the term under the cursor from the field names and what the loaded events contain
+export function getQuerySuggestions(input: string, cursor: number, vocabulary: QueryVocabulary): QuerySuggestions {
+  let from = cursor
+  while (from > 0 && !/[\s(]/.test(input[from - 1])) from--
+  if (input[from] === "-") from++
+  const term = input.slice(from, cursor)
+  const lower = term.toLowerCase()
+
+  let items: QuerySuggestion[] = []
+  const header = term.match(/^header:([^=!:]*)(?:(!=|=|:)(.*))?$/i)
+  const bodyValue = term.match(/^(body[.[][^=!<>:]*)(!=|=|:)(.*)$/i)
+  const field = term.match(/^(method|status|is|signature|schema|provider|after|before):(.*)$/i)
+  const eventType = term.match(/^type(!=|=|:)(.*)$/i)
+
+  if (header && header[2] !== undefined) {
+    const name = header[1].toLowerCase()
+    items = suggestValues(`header:${header[1]}${header[2]}`, header[3], vocabulary.headers.get(name) ?? [])
+  } else if (header) {
+    items = suggestValues("header:", header[1], vocabulary.headers.keys())
+  } else if (bodyValue) {
+    items = suggestValues(`${bodyValue[1]}${bodyValue[2]}`, bodyValue[3], vocabulary.bodyPaths.get(bodyValue[1]) ?? [])
+  } else if (/^body[.[]/i.test(term)) {
+    items = suggestValues("", term, vocabulary.bodyPaths.keys())
+  } else if (eventType) {
+    items = suggestValues(`type${eventType[1]}`, eventType[2], vocabulary.eventTypes)
+  } else if (field) {
+    items = suggestValues(`${field[1]}:`, field[2], FIELD_VALUES[field[1].toLowerCase()])
+  } else if (term && !/[:=<>]/.test(term)) {
+    items = Object.keys(FIELD_DESCRIPTIONS)
+      .filter((name) => name.startsWith(lower) && name !== lower)
+      .map((name) => ({ value: name, description: FIELD_DESCRIPTIONS[name] }))
+  }
+
+  return { from, to: cursor, items: items.slice(0, MAX_SUGGESTIONS) }
+}
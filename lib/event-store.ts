@@ -0,0 +1,105 @@
+import { redis } from "./redis"
+import { type WebhookEvent } from "@/app/actions/webhook"
+
+// Events live in a hash keyed by id; the sorted set only orders ids by timestamp
+export function getEventIndexKey(uuid: string) {
+  return `webhook:${uuid}:events`
+}
+
+export function getEventDataKey(uuid: string) {
+  return `webhook:${uuid}:event-data`
+}
+
+function parseEvent(value: unknown) {
+  // Upstash Redis client automatically deserializes JSON, so values may already be objects
+  return (typeof value === "string" ? JSON.parse(value) : value) as WebhookEvent
+}
+
+export async function saveEvent(event: WebhookEvent) {
+  const pipeline = redis.pipeline()
+  pipeline.hset(getEventDataKey(event.uuid), { [event.id]: JSON.stringify(event) })
+  pipeline.zadd(getEventIndexKey(event.uuid), { score: event.timestamp, member: event.id })
+  await pipeline.exec()
+}
+
+export async function loadEvent(uuid: string, eventId: string): Promise<WebhookEvent | null> {
+  const value = await redis.hget(getEventDataKey(uuid), eventId)
+  return value ? parseEvent(value) : null
+}
+
+// Fetch events in the order of the ids given, skipping any that have gone missing
+export async function loadEvents(uuid: string, eventIds: string[]): Promise<WebhookEvent[]> {
+  if (eventIds.length === 0) {
+    return []
+  }
+
+  const values = await redis.hmget<Record<string, unknown>>(getEventDataKey(uuid), ...eventIds)
+  return eventIds.flatMap((id) => (values?.[id] ? [parseEvent(values[id])] : []))
+}
+
+// Drop events from the index, the data hash and their replay history in one round trip
+export async function removeEvents(uuid: string, eventIds: string[]) {
+  if (eventIds.length === 0) {
+    return 0
+  }
+
+  const pipeline = redis.pipeline()
+  pipeline.zrem(getEventIndexKey(uuid), ...eventIds)
+  pipeline.hdel(getEventDataKey(uuid), ...eventIds)
+  pipeline.hdel(`webhook:${uuid}:replays`, ...eventIds)
+  const [removed] = await pipeline.exec<[number, number, number]>()
+  return removed
+}
+
+// Stored size of each event in bytes, in the order of the ids given
+export async function getEventSizes(uuid: string, eventIds: string[]): Promise<number[]> {
+  if (eventIds.length === 0) {
+    return []
+  }
+
+  const pipeline = redis.pipeline()
+  for (const id of eventIds) {
+    pipeline.hstrlen(getEventDataKey(uuid), id)
+  }
+  return pipeline.exec<number[]>()
+}
+
+export function getMigratedKey(uuid: string) {
+  return `webhook:${uuid}:migrated`
+}
+
+// Endpoints written before events were stored by id keep whole JSON events in the sorted set. The script
+// moves them into the hash in one atomic step, so webhooks saved meanwhile never lose their index entry,
+// and then sets the endpoint's migrated flag so the set is only ever scanned once.
+const migrateScript = redis.createScript<number>(`
+if redis.call("EXISTS", KEYS[3]) == 1 or redis.call("EXISTS", KEYS[1]) == 0 then return 0 end
+local entries = redis.call("ZRANGE", KEYS[1], 0, -1, "WITHSCORES")
+local moved = 0
+for i = 1, #entries, 2 do
+  local member = entries[i]
+  if string.sub(member, 1, 1) == "{" then
+    local id = cjson.decode(member).id
+    redis.call("HSET", KEYS[2], id, member)
+    redis.call("ZREM", KEYS[1], member)
+    redis.call("ZADD", KEYS[1], entries[i + 1], id)
+    moved = moved + 1
+  end
+end
+redis.call("SET", KEYS[3], "1")
+local ttl = redis.call("TTL", KEYS[1])
+if ttl > 0 then redis.call("EXPIRE", KEYS[3], ttl) end
+return moved
+`)
+
+// Endpoints this process has already seen migrated, so the webhook hot path skips even the flag lookup
+const migratedEndpoints = new Set<string>()
+
+export async function migrateLegacyEvents(uuid: string) {
+  if (migratedEndpoints.has(uuid)) {
+    return false
+  }
+
+  const moved = await migrateScript.exec([getEventIndexKey(uuid), getEventDataKey(uuid), getMigratedKey(uuid)], [])
+  migratedEndpoints.add(uuid)
+  return moved > 0
+}
@@ -0,0 +1,82 @@
+import { describe, test } from "node:test"
+import assert from "node:assert/strict"
+import { type WebhookEvent } from "@/app/actions/webhook"
+import { EXPORT_FORMATS, exportEvents, importEvents } from "./export-formats"
+
+const jsonEvent: WebhookEvent = {
+  id: "0b6c2f1e-6f1a-4c56-9d7e-1f2a3b4c5d6e",
+  uuid: "endpoint",
+  method: "POST",
+  url: "https://ehook.app/api/webhook/endpoint/orders?source=shop",
+  path: "/orders",
+  headers: { "content-type": "application/json", "x-shop-topic": "orders/create" },
+  body: { id: 1, total: "9.99" },
+  rawBody: '{"id":1,"total":"9.99"}',
+  bodyEncoding: "utf8",
+  query: { source: "shop" },
+  timestamp: 1700000000123,
+  note: "First order",
+}
+
+const binaryEvent: WebhookEvent = {
+  id: "5d0f9c3a-2b1e-4f7d-8a6b-9c8d7e6f5a4b",
+  uuid: "endpoint",
+  method: "PUT",
+  url: "https://ehook.app/api/webhook/endpoint",
+  headers: { "content-type": "application/octet-stream" },
+  body: null,
+  rawBody: "iVBORw0KGgoA/w==",
+  bodyEncoding: "base64",
+  query: {},
+  timestamp: 1700000060000,
+}
+
+const roundTrip = (format: (typeof EXPORT_FORMATS)[number]["id"], events: WebhookEvent[]) =>
+  importEvents(exportEvents(events, format))
+
+describe("export and import", () => {
+  for (const { id: format } of EXPORT_FORMATS) {
+    test(`${format} keeps the request, body encoding, timestamp and note`, () => {
+      const [json, binary] = roundTrip(format, [jsonEvent, binaryEvent])
+
+      assert.equal(json.method, "POST")
+      assert.equal(json.url, jsonEvent.url)
+      assert.equal(json.path, "/orders")
+      assert.deepEqual(json.headers, jsonEvent.headers)
+      assert.equal(json.rawBody, jsonEvent.rawBody)
+      assert.equal(json.bodyEncoding, "utf8")
+      assert.equal(json.timestamp, jsonEvent.timestamp)
+      assert.equal(json.note, "First order")
+
+      assert.equal(binary.method, "PUT")
+      assert.equal(binary.rawBody, binaryEvent.rawBody)
+      assert.equal(binary.bodyEncoding, "base64")
+      assert.equal(binary.timestamp, binaryEvent.timestamp)
+    })
+
+    test(`${format} exports an event without an absolute url`, () => {
+      const event = { ...jsonEvent, url: "", query: {} }
+      const [imported] = roundTrip(format, [event])
+      assert.equal(imported.method, "POST")
+      assert.equal(imported.path, "/orders")
+      assert.equal(imported.rawBody, jsonEvent.rawBody)
+    })
+  }
+
+  test("JSON Lines keeps stars and accepts a plain JSON array", () => {
+    const [starred] = roundTrip("jsonl", [{ ...jsonEvent, starred: true }])
+    assert.equal(starred.starred, true)
+    assert.equal(importEvents(JSON.stringify([jsonEvent, binaryEvent])).length, 2)
+  })
+
+  test("Postman folders are flattened", () => {
+    const collection = JSON.parse(exportEvents([jsonEvent, binaryEvent], "postman"))
+    const nested = { ...collection, item: [{ name: "Folder", item: collection.item }] }
+    assert.deepEqual(importEvents(JSON.stringify(nested)).map((event) => event.method), ["POST", "PUT"])
+  })
+
+  test("rejects a file in no known format", () => {
+    assert.throws(() => importEvents('{"hello":"world"}'), /Unrecognized file/)
+    assert.deepEqual(importEvents("  "), [])
+  })
+})
@@ -0,0 +1,331 @@
+import { type WebhookEvent } from "@/app/actions/webhook"
+import { type BodyEncoding } from "./body"
+
+export type ExportFormat = "har" | "jsonl" | "postman" | "insomnia"
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: "har", label: "HAR 1.2", extension: "har", mimeType: "application/json" },
+  { id: "jsonl", label: "JSON Lines", extension: "jsonl", mimeType: "application/x-ndjson" },
+  { id: "postman", label: "Postman collection", extension: "postman_collection.json", mimeType: "application/json" },
+  { id: "insomnia", label: "Insomnia export", extension: "insomnia.json", mimeType: "application/json" },
+]
+
+// The request as captured, enough to store it again under another endpoint
+export type ImportedEvent = {
+  method: string
+  url: string
+  path?: string
+  headers: Record<string, string>
+  rawBody: string | null
+  bodyEncoding: BodyEncoding
+  timestamp: number
+  note?: string
+  starred?: boolean
+}
+
+type NameValue = { name: string; value: string }
+type KeyValue = { key: string; value: string }
+
+// Non-standard fields are prefixed so other tools ignore them while round trips stay lossless
+type EhookExtension = { _ehook?: { timestamp?: number; path?: string; bodyEncoding?: BodyEncoding } }
+
+function getContentType(event: WebhookEvent) {
+  const entry = Object.entries(event.headers).find(([key]) => key.toLowerCase() === "content-type")
+  return entry ? String(entry[1]) : ""
+}
+
+function getRawBody(event: WebhookEvent) {
+  if (event.rawBody !== undefined && event.rawBody !== null) {
+    return { text: event.rawBody, encoding: event.bodyEncoding ?? "utf8" }
+  }
+  if (event.body === null || event.body === undefined) {
+    return null
+  }
+  return { text: typeof event.body === "string" ? event.body : JSON.stringify(event.body), encoding: "utf8" as const }
+}
+
+// Imported events can carry an empty or relative url, so callers fall back to the captured path
+function parseEventUrl(event: WebhookEvent) {
+  try {
+    return new URL(event.url)
+  } catch {
+    return null
+  }
+}
+
+function toHeaderList(headers: Record<string, unknown>): NameValue[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value: String(value) }))
+}
+
+function fromHeaderList(list: (NameValue | KeyValue)[] | undefined) {
+  const headers: Record<string, string> = {}
+  for (const header of list ?? []) {
+    const name = "name" in header ? header.name : header.key
+    if (name) headers[name.toLowerCase()] = header.value ?? ""
+  }
+  return headers
+}
+
+function exportHar(events: WebhookEvent[]) {
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "eHook", version: "1.0" },
+      entries: events.map((event) => {
+        const body = getRawBody(event)
+        return {
+          startedDateTime: new Date(event.timestamp).toISOString(),
+          time: 0,
+          request: {
+            method: event.method,
+            url: event.url,
+            httpVersion: "HTTP/1.1",
+            cookies: [],
+            headers: toHeaderList(event.headers),
+            queryString: toHeaderList(event.query),
+            ...(body && {
+              postData: {
+                mimeType: getContentType(event),
+                text: body.text,
+                ...(body.encoding === "base64" && { _encoding: "base64" }),
+              },
+            }),
+            headersSize: -1,
+            bodySize: event.bodySize ?? -1,
+          },
+          response: {
+            status: event.response?.status ?? 0,
+            statusText: "",
+            httpVersion: "HTTP/1.1",
+            cookies: [],
+            headers: [],
+            content: { size: 0, mimeType: "" },
+            redirectURL: "",
+            headersSize: -1,
+            bodySize: -1,
+          },
+          cache: {},
+          timings: { send: 0, wait: event.response?.delay ?? 0, receive: 0 },
+          ...(event.note && { comment: event.note }),
+          _ehook: { path: event.path },
+        }
+      }),
+    },
+  }
+}
+
+function exportPostman(events: WebhookEvent[], name: string) {
+  return {
+    info: {
+      name,
+      schema: "https://schema.getpostman.com/json/collection/v2.1.0/collection.json",
+    },
+    item: events.map((event) => {
+      const body = getRawBody(event)
+      const url = parseEventUrl(event)
+      const path = url?.pathname ?? event.path ?? "/"
+      return {
+        name: `${event.method} ${event.path || path}`,
+        request: {
+          method: event.method,
+          header: toHeaderList(event.headers).map(({ name, value }) => ({ key: name, value })),
+          url: {
+            raw: event.url || path,
+            ...(url && {
+              protocol: url.protocol.replace(":", ""),
+              host: url.hostname.split("."),
+              ...(url.port && { port: url.port }),
+            }),
+            path: path.split("/").filter(Boolean),
+            query: toHeaderList(event.query).map(({ name, value }) => ({ key: name, value })),
+          },
+          ...(body && { body: { mode: "raw", raw: body.text } }),
+          ...(event.note && { description: event.note }),
+        },
+        _ehook: { timestamp: event.timestamp, path: event.path, bodyEncoding: body?.encoding },
+      }
+    }),
+  }
+}
+
+function exportInsomnia(events: WebhookEvent[], name: string) {
+  const workspaceId = "wrk_ehook"
+  return {
+    _type: "export",
+    __export_format: 4,
+    __export_date: new Date().toISOString(),
+    __export_source: "ehook",
+    resources: [
+      { _id: workspaceId, _type: "workspace", name },
+      ...events.map((event) => {
+        const body = getRawBody(event)
+        const url = parseEventUrl(event)
+        const path = url?.pathname ?? event.path ?? "/"
+        return {
+          _id: `req_${event.id.replace(/-/g, "")}`,
+          _type: "request",
+          parentId: workspaceId,
+          name: `${event.method} ${event.path || path}`,
+          description: event.note || "",
+          method: event.method,
+          url: url ? `${url.origin}${url.pathname}` : event.url.split("?")[0] || path,
+          parameters: toHeaderList(event.query),
+          headers: toHeaderList(event.headers),
+          body: body ? { mimeType: getContentType(event), text: body.text } : {},
+          _ehook: { timestamp: event.timestamp, path: event.path, bodyEncoding: body?.encoding },
+        }
+      }),
+    ],
+  }
+}
+
+export function exportEvents(events: WebhookEvent[], format: ExportFormat, name = "eHook webhooks") {
+  switch (format) {
+    case "jsonl":
+      return events.map((event) => JSON.stringify(event)).join("\n") + "\n"
+    case "har":
+      return JSON.stringify(exportHar(events), null, 2)
+    case "postman":
+      return JSON.stringify(exportPostman(events, name), null, 2)
+    case "insomnia":
+      return JSON.stringify(exportInsomnia(events, name), null, 2)
+  }
+}
+
+type HarEntry = {
+  startedDateTime?: string
+  comment?: string
+  request: {
+    method: string
+    url: string
+    headers?: NameValue[]
+    postData?: { text?: string; _encoding?: string }
+  }
+} & EhookExtension
+
+type PostmanItem = {
+  item?: PostmanItem[]
+  request?: {
+    method?: string
+    url?: string | { raw?: string }
+    header?: KeyValue[]
+    body?: { raw?: string }
+    description?: string
+  }
+} & EhookExtension
+
+type InsomniaResource = {
+  _type: string
+  method?: string
+  url?: string
+  description?: string
+  parameters?: NameValue[]
+  headers?: NameValue[]
+  body?: { text?: string }
+} & EhookExtension
+
+function importHar(entries: HarEntry[]): ImportedEvent[] {
+  return entries.map((entry) => ({
+    method: entry.request.method,
+    url: entry.request.url,
+    path: entry._ehook?.path,
+    headers: fromHeaderList(entry.request.headers),
+    rawBody: entry.request.postData?.text ?? null,
+    bodyEncoding: entry.request.postData?._encoding === "base64" ? "base64" : "utf8",
+    timestamp: entry.startedDateTime ? new Date(entry.startedDateTime).getTime() : Date.now(),
+    ...(entry.comment && { note: entry.comment }),
+  }))
+}
+
+// Folders nest items, so flatten them depth first
+function importPostman(items: PostmanItem[]): ImportedEvent[] {
+  return items.flatMap((item): ImportedEvent[] => {
+    if (item.item) return importPostman(item.item)
+    if (!item.request) return []
+    const { request } = item
+    return [{
+      method: request.method || "GET",
+      url: typeof request.url === "string" ? request.url : request.url?.raw || "",
+      path: item._ehook?.path,
+      headers: fromHeaderList(request.header),
+      rawBody: request.body?.raw ?? null,
+      bodyEncoding: item._ehook?.bodyEncoding ?? "utf8",
+      timestamp: item._ehook?.timestamp ?? Date.now(),
+      ...(request.description && { note: request.description }),
+    }]
+  })
+}
+
+function importInsomnia(resources: InsomniaResource[]): ImportedEvent[] {
+  return resources
+    .filter((resource) => resource._type === "request")
+    .map((resource) => {
+      const url = new URL(resource.url || "/", "http://localhost/")
+      for (const { name, value } of resource.parameters ?? []) {
+        url.searchParams.append(name, value)
+      }
+      return {
+        method: resource.method || "GET",
+        url: url.toString(),
+        path: resource._ehook?.path,
+        headers: fromHeaderList(resource.headers),
+        rawBody: resource.body?.text ?? null,
+        bodyEncoding: resource._ehook?.bodyEncoding ?? "utf8",
+        timestamp: resource._ehook?.timestamp ?? Date.now(),
+        ...(resource.description && { note: resource.description }),
+      }
+    })
+}
+
+function importJsonl(text: string): ImportedEvent[] {
+  return text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => {
+      const event = JSON.parse(line) as WebhookEvent
+      const body = getRawBody(event)
+      return {
+        method: event.method,
+        url: event.url,
+        path: event.path,
+        headers: Object.fromEntries(Object.entries(event.headers).map(([key, value]) => [key, String(value)])),
+        rawBody: body?.text ?? null,
+        bodyEncoding: body?.encoding ?? "utf8",
+        timestamp: event.timestamp,
+        ...(event.note && { note: event.note }),
+        ...(event.starred && { starred: true }),
+      }
+    })
+}
+
+// Detect the format from the file contents rather than its name
+export function importEvents(text: string): ImportedEvent[] {
+  const trimmed = text.trim()
+  if (!trimmed) return []
+
+  let data: unknown
+  try {
+    data = JSON.parse(trimmed)
+  } catch {
+    return importJsonl(trimmed)
+  }
+
+  if (Array.isArray(data)) {
+    return importJsonl(data.map((event) => JSON.stringify(event)).join("\n"))
+  }
+
+  const document = data as {
+    log?: { entries?: HarEntry[] }
+    item?: PostmanItem[]
+    _type?: string
+    resources?: InsomniaResource[]
+    id?: string
+  }
+  if (document.log?.entries) return importHar(document.log.entries)
+  if (document.item) return importPostman(document.item)
+  if (document._type === "export" && document.resources) return importInsomnia(document.resources)
+  // A single event on one line is also valid JSON Lines
+  if (document.id) return importJsonl(trimmed)
+
+  throw new Error("Unrecognized file; expected HAR, JSON Lines, a Postman collection or an Insomnia export")
+}
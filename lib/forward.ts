@@ -0,0 +1,74 @@
+import { decodeRawBody, formatHexDump, type BodyEncoding } from "./body"
+
+export type ForwardResult = {
+  url: string
+  status: number | null
+  statusText: string
+  headers: Record<string, string>
+  body: string | null
+  // base64 when the upstream body is not valid UTF-8; unset means text
+  bodyEncoding?: BodyEncoding
+  // The body stopped at the size limit; it is kept for inspection but not passed on to the sender
+  bodyTruncated?: boolean
+  duration: number
+  error?: string
+}
+
+// The upstream body is stored with the event, so anything past this is dropped
+export const MAX_FORWARD_BODY_BYTES = 1024 * 1024
+
+// Headers that describe the inbound connection and must not be relayed upstream
+const HOP_BY_HOP_HEADERS = new Set([
+  "host",
+  "connection",
+  "keep-alive",
+  "content-length",
+  "transfer-encoding",
+  "upgrade",
+  "proxy-authorization",
+  "proxy-authenticate",
+  "te",
+  "trailer",
+])
+
+export type ForwardRequest = {
+  method: string
+  headers: Record<string, string>
+  query: Record<string, string>
+  rawBody: Uint8Array<ArrayBuffer> | string | null
+}
+
+// Pass `decoded` for bodies read through fetch(), which already undid any content-encoding
+export function stripHopByHopHeaders(headers: Record<string, string>, { decoded = false } = {}) {
+  const result: Record<string, string> = {}
+  for (const [key, value] of Object.entries(headers)) {
+    const name = key.toLowerCase()
+    if (HOP_BY_HOP_HEADERS.has(name) || (decoded && name === "content-encoding")) continue
+    result[key] = value
+  }
+  return result
+}
+
+// Turn a parsed event body back into something that can be sent over the wire
+export function serializeBody(body: unknown, contentType: string): string | null {
+  if (body === null || body === undefined) return null
+  if (typeof body === "string") return body
+  if (contentType.includes("application/x-www-form-urlencoded")) {
+    return new URLSearchParams(body as Record<string, string>).toString()
+  }
+  return JSON.stringify(body)
+}
+
+export function buildForwardUrl(target: string, query: Record<string, string>) {
+  const url = new URL(target)
+  for (const [key, value] of Object.entries(query)) {
+    url.searchParams.append(key, value)
+  }
+  return url.toString()
+}
+
+// Text to show for a response body; binary bodies are shown as a hex dump
+export function formatResultBody(result: ForwardResult) {
+  if (!result.body) return null
+  return result.bodyEncoding === "base64" ? formatHexDump(decodeRawBody(result.body, "base64")) : result.body
+}
@@ -0,0 +1,105 @@
+type Segment =
+  | { type: "key"; key: string }
+  | { type: "index"; index: number }
+  | { type: "wildcard" }
+  | { type: "descendant"; key: string | null }
+
+// Supports the common subset: $.a.b, $['a'], $[0], $[-1], $[*], $.*, $..a
+export function parseJsonPath(path: string): Segment[] {
+  const segments: Segment[] = []
+  let i = path.startsWith("$") ? 1 : 0
+
+  const readName = () => {
+    const start = i
+    while (i < path.length && !/[.\[]/.test(path[i])) i++
+    return path.slice(start, i)
+  }
+
+  while (i < path.length) {
+    if (path.startsWith("..", i)) {
+      i += 2
+      if (path[i] === "*") {
+        i++
+        segments.push({ type: "descendant", key: null })
+      } else {
+        segments.push({ type: "descendant", key: readName() })
+      }
+    } else if (path[i] === ".") {
+      i++
+      if (path[i] === "*") {
+        i++
+        segments.push({ type: "wildcard" })
+      } else {
+        segments.push({ type: "key", key: readName() })
+      }
+    } else if (path[i] === "[") {
+      const end = path.indexOf("]", i)
+      if (end === -1) throw new Error(`Unclosed bracket in JSONPath "${path}"`)
+      const inner = path.slice(i + 1, end).trim()
+      i = end + 1
+      if (inner === "*") {
+        segments.push({ type: "wildcard" })
+      } else if (/^-?\d+$/.test(inner)) {
+        segments.push({ type: "index", index: Number(inner) })
+      } else if (/^(['"]).*\1$/.test(inner)) {
+        segments.push({ type: "key", key: inner.slice(1, -1) })
+      } else {
+        throw new Error(`Unsupported JSONPath selector "[${inner}]"`)
+      }
+    } else {
+      // Allow paths written without the leading "$." such as "data.object.id"
+      segments.push({ type: "key", key: readName() })
+    }
+  }
+
+  return segments
+}
+
+function childrenOf(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value
+  if (value && typeof value === "object") return Object.values(value)
+  return []
+}
+
+function descendants(value: unknown): unknown[] {
+  const result: unknown[] = [value]
+  for (const child of childrenOf(value)) {
+    result.push(...descendants(child))
+  }
+  return result
+}
+
+function applySegment(value: unknown, segment: Segment): unknown[] {
+  switch (segment.type) {
+    case "key":
+      if (value && typeof value === "object" && !Array.isArray(value) && segment.key in value) {
+        return [(value as Record<string, unknown>)[segment.key]]
+      }
+      return []
+    case "index": {
+      if (!Array.isArray(value)) return []
+      const index = segment.index < 0 ? value.length + segment.index : segment.index
+      return index >= 0 && index < value.length ? [value[index]] : []
+    }
+    case "wildcard":
+      return childrenOf(value)
+    case "descendant":
+      return descendants(value).flatMap((node) =>
+        segment.key === null ? childrenOf(node) : applySegment(node, { type: "key", key: segment.key })
+      )
+  }
+}
+
+// Bracket anything that would not read back as a plain dotted name
+export function appendPathKey(path: string, key: string) {
+  return /^[A-Za-z_$][\w$-]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`
+}
+
+// Evaluate a JSONPath expression and return every matching value
+export function queryJsonPath(data: unknown, path: string): unknown[] {
+  let current = [data]
+  for (const segment of parseJsonPath(path)) {
+    current = current.flatMap((value) => applySegment(value, segment))
+  }
+  return current
+}
@@ -0,0 +1,111 @@
+export type MultipartPart = {
+  name: string
+  filename?: string
+  contentType: string
+  size: number
+  // Byte range of the part's content within the raw request body
+  offset: number
+  // Inline value for plain text fields
+  value?: string
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+function indexOfBytes(haystack: Uint8Array, needle: Uint8Array, from = 0) {
+  outer: for (let i = from; i <= haystack.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer
+    }
+    return i
+  }
+  return -1
+}
+
+export function getBoundary(contentType: string) {
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;\s]+))/i)
+  return match ? match[1] ?? match[2] : null
+}
+
+function parseDisposition(value: string) {
+  const params: Record<string, string> = {}
+  const pattern = /;\s*([^=;\s]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g
+  let match
+  while ((match = pattern.exec(value))) {
+    params[match[1].toLowerCase()] = (match[2] ?? match[3] ?? "").replace(/\\(.)/g, "$1").trim()
+  }
+  return params
+}
+
+// Split a multipart/form-data body into its parts, keeping repeated names and file contents
+export function parseMultipart(bytes: Uint8Array, contentType: string): MultipartPart[] | null {
+  const boundary = getBoundary(contentType)
+  if (!boundary) return null
+
+  const delimiter = encoder.encode(`--${boundary}`)
+  const headerSeparator = encoder.encode("\r\n\r\n")
+  const parts: MultipartPart[] = []
+
+  let position = indexOfBytes(bytes, delimiter)
+  if (position === -1) return null
+
+  while (position !== -1) {
+    const partStart = position + delimiter.length
+
+    // A delimiter followed by "--" closes the body
+    if (bytes[partStart] === 0x2d && bytes[partStart + 1] === 0x2d) break
+
+    const next = indexOfBytes(bytes, delimiter, partStart)
+    if (next === -1) break
+
+    const headerStart = partStart + 2
+    const headerEnd = indexOfBytes(bytes, headerSeparator, headerStart)
+    if (headerEnd === -1 || headerEnd > next) break
+
+    const headers: Record<string, string> = {}
+    for (const line of decoder.decode(bytes.subarray(headerStart, headerEnd)).split("\r\n")) {
+      const colon = line.indexOf(":")
+      if (colon > 0) {
+        headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim()
+      }
+    }
+
+    const disposition = parseDisposition(headers["content-disposition"] || "")
+    const contentStart = headerEnd + headerSeparator.length
+    // Content ends right before the CRLF that precedes the next delimiter
+    const contentEnd = Math.max(contentStart, next - 2)
+
+    const part: MultipartPart = {
+      name: disposition.name || "",
+      contentType: headers["content-type"] || (disposition.filename !== undefined ? "application/octet-stream" : "text/plain"),
+      size: contentEnd - contentStart,
+      offset: contentStart,
+    }
+
+    if (disposition.filename !== undefined) {
+      part.filename = disposition.filename
+    } else {
+      part.value = decoder.decode(bytes.subarray(contentStart, contentEnd))
+    }
+
+    parts.push(part)
+    position = next
+  }
+
+  return parts
+}
+
+// Plain fields as a body object; repeated names collect into arrays
+export function getMultipartFields(parts: MultipartPart[]) {
+  const fields: Record<string, string | string[]> = {}
+  for (const part of parts) {
+    if (part.value === undefined) continue
+    const existing = fields[part.name]
+    if (existing === undefined) {
+      fields[part.name] = part.value
+    } else {
+      fields[part.name] = Array.isArray(existing) ? [...existing, part.value] : [existing, part.value]
+    }
+  }
+  return fields
+}
@@ -0,0 +1,46 @@
+import { forwardWebhook } from "./upstream"
+import { signRequest } from "./signature-signer"
+import { type SignatureProvider } from "./signatures"
+
+export type OutboundRequest = {
+  method: string
+  url: string
+  headers: Record<string, string>
+  body: string | null
+  // Sign with the provider's scheme right before each delivery
+  signing?: { provider: SignatureProvider; secret: string } | null
+  // Template the request was composed from, for history lists
+  template?: string
+}
+
+// Returns a message describing why a request cannot be sent, or null when the target is usable
+export function checkOutboundUrl(value: string) {
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return "Enter a valid URL"
+  }
+  return url.protocol === "http:" || url.protocol === "https:" ? null : "Only http and https URLs can be sent to"
+}
+
+// Sign (when a secret is given) and send from the server; throws when the request cannot be signed
+export async function deliverRequest(request: OutboundRequest) {
+  const url = new URL(request.url).toString()
+  const method = request.method.toUpperCase()
+  const body = request.body || null
+  const signedWith = request.signing?.secret.trim() ? request.signing.provider : undefined
+
+  let headers = { ...request.headers }
+  if (signedWith) {
+    const contentType = Object.entries(headers).find(([key]) => key.toLowerCase() === "content-type")?.[1] ?? ""
+    const signature = signRequest(signedWith, request.signing!.secret, { url, body: body ?? "", contentType })
+    // Replace stale signature headers from an earlier send of the same request
+    const names = new Set(Object.keys(signature))
+    headers = Object.fromEntries(Object.entries(headers).filter(([key]) => !names.has(key.toLowerCase())))
+    Object.assign(headers, signature)
+  }
+
+  const response = await forwardWebhook(url, { method, headers, query: {}, rawBody: body })
+  return { method, headers, body, signedWith, response }
+}
@@ -0,0 +1,310 @@
+import { type WebhookEvent } from "@/app/actions/webhook"
+import { queryJsonPath } from "./jsonpath"
+
+export type ProviderDetails = {
+  provider: string
+  label: string
+  // e.g. "pull_request.opened", "invoice.paid", "orders/create"
+  eventType?: string
+  // The object the event is about, e.g. a PR number, Stripe object id or Shopify order id
+  resourceId?: string
+  // One line for the inbox row
+  summary?: string
+  // Extra labelled values for the inspector
+  fields: { label: string; value: string }[]
+}
+
+type DecodeInput = {
+  // Lowercased header names
+  headers: Record<string, string>
+  body: any
+}
+
+export type WebhookProvider = {
+  id: string
+  label: string
+  detect: (input: DecodeInput) => boolean
+  decode: (input: DecodeInput) => Omit<ProviderDetails, "provider" | "label">
+}
+
+function text(value: unknown) {
+  return value === undefined || value === null || value === "" ? undefined : String(value)
+}
+
+function get(body: unknown, path: string) {
+  try {
+    return queryJsonPath(body, path)[0]
+  } catch {
+    return undefined
+  }
+}
+
+// Drop empty values so the inspector only lists what the payload carried
+function fields(entries: [string, unknown][]) {
+  return entries.flatMap(([label, value]) => (text(value) ? [{ label, value: String(value) }] : []))
+}
+
+function isObject(body: unknown): body is Record<string, any> {
+  return typeof body === "object" && body !== null && !Array.isArray(body)
+}
+
+function formatAmount(amount: unknown, currency: unknown) {
+  if (typeof amount !== "number" || typeof currency !== "string") return undefined
+  // Stripe amounts are in the smallest currency unit
+  return `${(amount / 100).toFixed(2)} ${currency.toUpperCase()}`
+}
+
+const github: WebhookProvider = {
+  id: "github",
+  label: "GitHub",
+  detect: ({ headers }) => Boolean(headers["x-github-event"]),
+  decode: ({ headers, body }) => {
+    const event = headers["x-github-event"]
+    const action = text(get(body, "$.action"))
+    const repository = text(get(body, "$.repository.full_name"))
+    const item = get(body, "$.pull_request") ?? get(body, "$.issue")
+    const number = text(isObject(item) ? item.number : undefined)
+    const sender = text(get(body, "$.sender.login"))
+
+    let summary: string | undefined
+    if (event === "push") {
+      const commits = get(body, "$.commits")
+      const ref = text(get(body, "$.ref"))?.replace(/^refs\/heads\//, "")
+      summary = `${Array.isArray(commits) ? commits.length : 0} commits to ${ref} in ${repository}`
+    } else if (isObject(item) && number) {
+      summary = `${repository} #${number} ${item.title ?? ""} ${action ?? ""}`.trim()
+    } else if (repository) {
+      summary = [repository, event, action].filter(Boolean).join(" ")
+    }
+    if (summary && sender) summary += ` by ${sender}`
+
+    return {
+      eventType: action ? `${event}.${action}` : event,
+      resourceId: number ? `#${number}` : text(get(body, "$.head_commit.id")) ?? text(get(body, "$.after")),
+      summary,
+      fields: fields([
+        ["Event", event],
+        ["Action", action],
+        ["Delivery", headers["x-github-delivery"]],
+        ["Repository", repository],
+        ["Sender", sender],
+        ["Ref", get(body, "$.ref")],
+        ["Hook", headers["x-github-hook-id"]],
+      ]),
+    }
+  },
+}
+
+const stripe: WebhookProvider = {
+  id: "stripe",
+  label: "Stripe",
+  detect: ({ headers, body }) =>
+    Boolean(headers["stripe-signature"]) || (isObject(body) && body.object === "event" && String(body.id).startsWith("evt_")),
+  decode: ({ body }) => {
+    const object = get(body, "$.data.object")
+    const resource = isObject(object) ? object : {}
+    const amount = formatAmount(resource.amount ?? resource.amount_due ?? resource.amount_total, resource.currency)
+    return {
+      eventType: text(get(body, "$.type")),
+      resourceId: text(resource.id),
+      summary: [get(body, "$.type"), resource.id, amount, resource.customer_email ?? resource.email].filter(Boolean).join(" · "),
+      fields: fields([
+        ["Event", get(body, "$.id")],
+        ["Type", get(body, "$.type")],
+        ["Object", resource.object],
+        ["Status", resource.status],
+        ["Amount", amount],
+        ["Customer", typeof resource.customer === "string" ? resource.customer : undefined],
+        ["Live mode", get(body, "$.livemode")],
+        ["API version", get(body, "$.api_version")],
+      ]),
+    }
+  },
+}
+
+const shopify: WebhookProvider = {
+  id: "shopify",
+  label: "Shopify",
+  detect: ({ headers }) => Boolean(headers["x-shopify-topic"]),
+  decode: ({ headers, body }) => {
+    const topic = headers["x-shopify-topic"]
+    const shop = headers["x-shopify-shop-domain"]
+    const name = text(get(body, "$.name")) ?? text(get(body, "$.title"))
+    const price = text(get(body, "$.total_price"))
+    const currency = text(get(body, "$.currency"))
+    return {
+      eventType: topic,
+      resourceId: text(get(body, "$.id")),
+      summary: [topic, name, price && `${price} ${currency ?? ""}`.trim(), shop].filter(Boolean).join(" · "),
+      fields: fields([
+        ["Topic", topic],
+        ["Shop", shop],
+        ["Webhook", headers["x-shopify-webhook-id"]],
+        ["API version", headers["x-shopify-api-version"]],
+        ["Triggered at", headers["x-shopify-triggered-at"]],
+        ["Customer", get(body, "$.email")],
+      ]),
+    }
+  },
+}
+
+const slack: WebhookProvider = {
+  id: "slack",
+  label: "Slack",
+  detect: ({ headers }) => Boolean(headers["x-slack-signature"] || headers["x-slack-request-timestamp"]),
+  decode: ({ body }) => {
+    // Interactivity posts its JSON as a form field named "payload"
+    let payload = body
+    if (isObject(body) && typeof body.payload === "string") {
+      try {
+        payload = JSON.parse(body.payload)
+      } catch {}
+    }
+
+    if (isObject(payload) && payload.command) {
+      return {
+        eventType: "slash_command",
+        resourceId: text(payload.trigger_id),
+        summary: `${payload.command} ${payload.text ?? ""}`.trim() + (payload.user_name ? ` by ${payload.user_name}` : ""),
+        fields: fields([
+          ["Command", payload.command],
+          ["Text", payload.text],
+          ["Team", payload.team_domain ?? payload.team_id],
+          ["Channel", payload.channel_name ?? payload.channel_id],
+          ["User", payload.user_name ?? payload.user_id],
+        ]),
+      }
+    }
+
+    const type = text(get(payload, "$.type"))
+    const inner = text(get(payload, "$.event.type"))
+    return {
+      eventType: inner ? `${type}.${inner}` : type,
+      resourceId: text(get(payload, "$.event_id")) ?? text(get(payload, "$.trigger_id")),
+      summary: [inner ?? type, get(payload, "$.event.text") ?? get(payload, "$.actions[0].action_id")].filter(Boolean).join(" · "),
+      fields: fields([
+        ["Type", type],
+        ["Event", inner],
+        ["Team", get(payload, "$.team_id") ?? get(payload, "$.team.id")],
+        ["Channel", get(payload, "$.event.channel") ?? get(payload, "$.channel.id")],
+        ["User", get(payload, "$.event.user") ?? get(payload, "$.user.id")],
+        ["Event id", get(payload, "$.event_id")],
+      ]),
+    }
+  },
+}
+
+const twilio: WebhookProvider = {
+  id: "twilio",
+  label: "Twilio",
+  detect: ({ headers }) => Boolean(headers["x-twilio-signature"] || headers["i-twilio-idempotency-token"]),
+  decode: ({ body }) => {
+    const b = isObject(body) ? body : {}
+    const status = b.MessageStatus ?? b.SmsStatus ?? b.CallStatus
+    const kind = b.CallSid ? "call" : "message"
+    return {
+      eventType: status ? `${kind}.${status}` : kind,
+      resourceId: text(b.MessageSid ?? b.SmsSid ?? b.CallSid),
+      summary: [b.From && b.To ? `${b.From} → ${b.To}` : undefined, status, b.Body].filter(Boolean).join(" · "),
+      fields: fields([
+        ["From", b.From],
+        ["To", b.To],
+        ["Status", status],
+        ["Body", b.Body],
+        ["Account", b.AccountSid],
+      ]),
+    }
+  },
+}
+
+const DISCORD_INTERACTIONS: Record<number, string> = {
+  1: "ping",
+  2: "application_command",
+  3: "message_component",
+  4: "autocomplete",
+  5: "modal_submit",
+}
+
+const discord: WebhookProvider = {
+  id: "discord",
+  label: "Discord",
+  detect: ({ headers }) => Boolean(headers["x-signature-ed25519"]),
+  decode: ({ body }) => {
+    const type = get(body, "$.type")
+    const command = text(get(body, "$.data.name")) ?? text(get(body, "$.data.custom_id"))
+    const user = text(get(body, "$.member.user.username")) ?? text(get(body, "$.user.username"))
+    return {
+      eventType: DISCORD_INTERACTIONS[type as number] ?? text(type),
+      resourceId: text(get(body, "$.id")),
+      summary: [command && (type === 2 ? `/${command}` : command), user && `by ${user}`].filter(Boolean).join(" ") || undefined,
+      fields: fields([
+        ["Interaction", get(body, "$.id")],
+        ["Command", command],
+        ["Guild", get(body, "$.guild_id")],
+        ["Channel", get(body, "$.channel_id")],
+        ["User", user],
+      ]),
+    }
+  },
+}
+
+const sendgrid: WebhookProvider = {
+  id: "sendgrid",
+  label: "SendGrid",
+  detect: ({ headers }) => Boolean(headers["x-twilio-email-event-webhook-signature"] || headers["x-twilio-email-signature"]),
+  decode: ({ body }) => {
+    // The event webhook batches several events per request
+    const events = Array.isArray(body) ? body : []
+    const types = [...new Set(events.map((event) => event?.event).filter(Boolean))]
+    return {
+      eventType: types.join(","),
+      resourceId: text(events[0]?.sg_message_id),
+      summary: `${events.length} events · ${types.join(", ")}`,
+      fields: fields([
+        ["Events", events.length],
+        ["Types", types.join(", ")],
+        ["First recipient", events[0]?.email],
+      ]),
+    }
+  },
+}
+
+const mailgun: WebhookProvider = {
+  id: "mailgun",
+  label: "Mailgun",
+  detect: ({ headers, body }) => Boolean(headers["x-mailgun-signature"]) || (isObject(body) && isObject(body["event-data"])),
+  decode: ({ body }) => {
+    const data = isObject(body) && isObject(body["event-data"]) ? body["event-data"] : {}
+    return {
+      eventType: text(data.event),
+      resourceId: text(data.id),
+      summary: [data.event, data.recipient, get(data, "$.message.headers.subject")].filter(Boolean).join(" · "),
+      fields: fields([
+        ["Event", data.event],
+        ["Recipient", data.recipient],
+        ["Subject", get(data, "$.message.headers.subject")],
+        ["Message id", get(data, "$.message.headers['message-id']")],
+        ["Severity", data.severity],
+      ]),
+    }
+  },
+}
+
+// Checked in order; add an entry here to teach the inbox about another sender
+export const WEBHOOK_PROVIDERS: WebhookProvider[] = [github, stripe, shopify, slack, twilio, discord, sendgrid, mailgun]
+
+export function decodeProvider(event: Pick<WebhookEvent, "headers" | "body">): ProviderDetails | null {
+  const headers = Object.fromEntries(Object.entries(event.headers).map(([key, value]) => [key.toLowerCase(), String(value)]))
+  const input = { headers, body: event.body }
+  const provider = WEBHOOK_PROVIDERS.find((item) => item.detect(input))
+  if (!provider) return null
+
+  try {
+    const details = provider.decode(input)
+    return { provider: provider.id, label: provider.label, ...details, summary: details.summary || undefined }
+  } catch (error) {
+    // A payload that does not look like the docs still gets its provider label
+    console.error(`Error decoding ${provider.label} webhook:`, error)
+    return { provider: provider.id, label: provider.label, fields: [] }
+  }
+}
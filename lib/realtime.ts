@@ -9,10 +9,68 @@ const schema = {
       uuid: z.string(),
       method: z.string(),
       url: z.string(),
+      path: z.string().optional(),
       headers: z.record(z.string(), z.unknown()),
       body: z.any(),
+      rawBody: z.string().nullable().optional(),
+      bodyEncoding: z.enum(["utf8", "base64"]).optional(),
+      bodySize: z.number().optional(),
+      parts: z
+        .array(
+          z.object({
+            name: z.string(),
+            filename: z.string().optional(),
+            contentType: z.string(),
+            size: z.number(),
+            offset: z.number(),
+            value: z.string().optional(),
+          })
+        )
+        .optional(),
       query: z.record(z.string(), z.unknown()),
       timestamp: z.number(),
+      forward: z
+        .object({
+          url: z.string(),
+          status: z.number().nullable(),
+          statusText: z.string(),
+          headers: z.record(z.string(), z.string()),
+          body: z.string().nullable(),
+          duration: z.number(),
+          error: z.string().optional(),
+        })
+        .optional(),
+      signature: z
+        .object({
+          provider: z.enum(["stripe", "github", "slack", "shopify", "twilio", "discord"]),
+          status: z.enum(["valid", "invalid", "unverified"]),
+          expected: z.string().optional(),
+          received: z.string().optional(),
+          reason: z.string().optional(),
+        })
+        .optional(),
+      validation: z
+        .object({
+          status: z.enum(["valid", "invalid", "error"]),
+          schema: z.string(),
+          errors: z.array(z.object({ path: z.string(), message: z.string() })),
+        })
+        .optional(),
+      response: z
+        .object({
+          status: z.number(),
+          rule: z.string().optional(),
+          injected: z.enum(["failure", "timeout"]).optional(),
+          delay: z.number().optional(),
+        })
+        .optional(),
+      starred: z.boolean().optional(),
+      note: z.string().optional(),
+    }),
+    // Announced once per import rather than once per stored event
+    imported: z.object({
+      uuid: z.string(),
+      count: z.number(),
     }),
   },
 }
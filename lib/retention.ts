@@ -0,0 +1,38 @@
+export type RetentionSettings = {
+  maxEvents: number
+  // 0 disables the age and size limits
+  maxAgeHours: number
+  maxBytes: number
+}
+
+export type RetentionStatus = {
+  count: number
+  // Measured by the retention sweep, or on every webhook under a size limit; null until first measured
+  bytes: number | null
+  oldestTimestamp: number | null
+  // When the oldest event ages out under maxAgeHours
+  oldestExpiresAt: number | null
+  // When the endpoint's data expires if nothing else arrives
+  idleExpiresAt: number | null
+  retention: RetentionSettings
+}
+
+export const DEFAULT_RETENTION: RetentionSettings = {
+  maxEvents: 50,
+  maxAgeHours: 0,
+  maxBytes: 0,
+}
+
+export const MAX_EVENTS_LIMIT = 1000
+
+// Endpoints that receive nothing and are not opened for this long are dropped by Redis
+export const IDLE_TTL_SECONDS = 30 * 24 * 60 * 60
+
+export function normalizeRetention(retention: Partial<RetentionSettings> | undefined): RetentionSettings {
+  const merged = { ...DEFAULT_RETENTION, ...retention }
+  return {
+    maxEvents: Math.min(MAX_EVENTS_LIMIT, Math.max(1, Math.floor(merged.maxEvents) || DEFAULT_RETENTION.maxEvents)),
+    maxAgeHours: Math.max(0, merged.maxAgeHours || 0),
+    maxBytes: Math.max(0, Math.floor(merged.maxBytes) || 0),
+  }
+}
@@ -0,0 +1,135 @@
+import { queryJsonPath } from "./jsonpath"
+
+export type RuleField = "method" | "path" | "query" | "header" | "body"
+
+export type RuleOperator = "equals" | "not_equals" | "contains" | "matches" | "exists" | "not_exists"
+
+export type RuleCondition = {
+  field: RuleField
+  // Query parameter, header name or JSONPath expression, depending on the field
+  key?: string
+  operator: RuleOperator
+  value?: string
+}
+
+export type ResponseRule = {
+  id: string
+  name: string
+  enabled: boolean
+  // Every condition must match for the rule to apply
+  conditions: RuleCondition[]
+  responseStatus: number
+  responseBody: string
+  responseHeaders: Record<string, string>
+}
+
+export type RuleRequest = {
+  method: string
+  path: string
+  query: Record<string, string>
+  headers: Record<string, string>
+  body: unknown
+}
+
+export const RULE_FIELDS: { value: RuleField; label: string; keyPlaceholder?: string }[] = [
+  { value: "method", label: "Method" },
+  { value: "path", label: "Path suffix" },
+  { value: "query", label: "Query param", keyPlaceholder: "hub.mode" },
+  { value: "header", label: "Header", keyPlaceholder: "x-github-event" },
+  { value: "body", label: "Body JSONPath", keyPlaceholder: "$.type" },
+]
+
+export const RULE_OPERATORS: { value: RuleOperator; label: string }[] = [
+  { value: "equals", label: "equals" },
+  { value: "not_equals", label: "does not equal" },
+  { value: "contains", label: "contains" },
+  { value: "matches", label: "matches regex" },
+  { value: "exists", label: "exists" },
+  { value: "not_exists", label: "does not exist" },
+]
+
+// Patterns run on every incoming request, so keep them short and refuse nested quantifiers such as (a+)+,
+// which can backtrack for minutes on a crafted value
+const MAX_PATTERN_LENGTH = 200
+const NESTED_QUANTIFIER = /\((?:[^()\\]|\\.)*[*+}](?:[^()\\]|\\.)*\)[*+{]/
+// Only the start of a long value is searched
+const MAX_SUBJECT_LENGTH = 10_000
+
+// Returns a message describing why a "matches regex" pattern cannot be used, or null when it can
+export function checkRulePattern(pattern: string) {
+  if (pattern.length > MAX_PATTERN_LENGTH) return `Patterns are limited to ${MAX_PATTERN_LENGTH} characters`
+  if (NESTED_QUANTIFIER.test(pattern)) return "Nested quantifiers such as (a+)+ are not supported"
+  try {
+    new RegExp(pattern)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid regular expression"
+  }
+}
+
+function getFieldValues(condition: RuleCondition, request: RuleRequest): string[] {
+  const key = condition.key?.trim() || ""
+  switch (condition.field) {
+    case "method":
+      return [request.method]
+    case "path":
+      return [request.path]
+    case "query":
+      return key in request.query ? [request.query[key]] : []
+    case "header": {
+      const value = request.headers[key.toLowerCase()]
+      return value !== undefined ? [value] : []
+    }
+    case "body":
+      try {
+        return queryJsonPath(request.body, key || "$").map((value) =>
+          typeof value === "string" ? value : JSON.stringify(value)
+        )
+      } catch {
+        return []
+      }
+  }
+}
+
+function compare(operator: RuleOperator, actual: string, expected: string, field: RuleField) {
+  // Methods are case-insensitive everywhere else in the app, so match them the same way
+  const caseless = field === "method"
+  const left = caseless ? actual.toUpperCase() : actual
+  const right = caseless ? expected.toUpperCase() : expected
+
+  switch (operator) {
+    case "equals":
+      return field === "path" ? left.endsWith(right) : left === right
+    case "not_equals":
+      return field === "path" ? !left.endsWith(right) : left !== right
+    case "contains":
+      return left.includes(right)
+    case "matches":
+      return !checkRulePattern(expected) && new RegExp(expected).test(actual.slice(0, MAX_SUBJECT_LENGTH))
+    default:
+      return false
+  }
+}
+
+export function matchesCondition(condition: RuleCondition, request: RuleRequest) {
+  const values = getFieldValues(condition, request)
+  const expected = condition.value ?? ""
+
+  switch (condition.operator) {
+    case "exists":
+      return values.length > 0
+    case "not_exists":
+      return values.length === 0
+    case "not_equals":
+      return values.every((value) => compare("not_equals", value, expected, condition.field))
+    default:
+      return values.some((value) => compare(condition.operator, value, expected, condition.field))
+  }
+}
+
+// Return the first enabled rule whose conditions all match, in list order
+export function findMatchingRule(rules: ResponseRule[] | undefined, request: RuleRequest) {
+  return (rules ?? []).find(
+    (rule) => rule.enabled && rule.conditions.every((condition) => matchesCondition(condition, request))
+  ) ?? null
+}
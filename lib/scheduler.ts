@@ -0,0 +1,215 @@
+import { v4 as uuidv4 } from "uuid"
+import { redis } from "./redis"
+import { getNextCronRun } from "./cron"
+import { deliverRequest, type OutboundRequest } from "./outbound"
+import { touchEndpoint } from "./enforce-retention"
+import { IDLE_TTL_SECONDS } from "./retention"
+
+export type JobSchedule =
+  | { type: "once"; runAt: number }
+  // Five-field cron expression evaluated in UTC
+  | { type: "cron"; expression: string }
+
+export type JobRun = {
+  id: string
+  timestamp: number
+  status: number | null
+  statusText: string
+  duration: number
+  error?: string
+  // Started with "Run now" rather than by the schedule
+  manual?: boolean
+}
+
+export type ScheduledJob = {
+  id: string
+  name: string
+  request: OutboundRequest
+  schedule: JobSchedule
+  paused: boolean
+  createdAt: number
+  // null once a one-off job has run or a cron expression has no future match
+  nextRunAt: number | null
+  lastRun?: JobRun
+}
+
+// Every endpoint's due jobs, scored by their next run time
+const DUE_KEY = "schedule:due"
+const MAX_RUNS_PER_JOB = 50
+// Bound each sweep so a backlog cannot outlast the cron request
+const MAX_JOBS_PER_SWEEP = 25
+
+function getJobsKey(uuid: string) {
+  return `webhook:${uuid}:jobs`
+}
+
+function getJobRunsKey(uuid: string) {
+  return `webhook:${uuid}:job-runs`
+}
+
+function getDueMember(uuid: string, jobId: string) {
+  return `${uuid}/${jobId}`
+}
+
+function parseJson<T>(value: unknown) {
+  return (typeof value === "string" ? JSON.parse(value) : value) as T
+}
+
+export function getNextRunAt(schedule: JobSchedule, after: number) {
+  if (schedule.type === "cron") return getNextCronRun(schedule.expression, after)
+  // A one-off job resumed after its time runs on the next sweep
+  return Math.max(schedule.runAt, after)
+}
+
+export async function getJob(uuid: string, jobId: string) {
+  const job = await redis.hget(getJobsKey(uuid), jobId)
+  return job ? parseJson<ScheduledJob>(job) : null
+}
+
+export async function getJobs(uuid: string) {
+  const jobs = await redis.hgetall<Record<string, unknown>>(getJobsKey(uuid))
+  return Object.values(jobs ?? {})
+    .map((job) => parseJson<ScheduledJob>(job))
+    .sort((a, b) => a.createdAt - b.createdAt)
+}
+
+export async function getJobRuns(uuid: string, jobId: string) {
+  const runs = await redis.hget(getJobRunsKey(uuid), jobId)
+  return runs ? parseJson<JobRun[]>(runs) : []
+}
+
+// Store the job and keep its entry in the due set in step with nextRunAt and paused
+export async function saveJob(uuid: string, job: ScheduledJob) {
+  const member = getDueMember(uuid, job.id)
+  await redis.hset(getJobsKey(uuid), { [job.id]: JSON.stringify(job) })
+
+  // Outlive the job's next run by the idle window, so a one-off set months ahead is still there to fire;
+  // NX covers a hash that was just created and GT never cuts short another job's longer expiry
+  const seconds = Math.ceil(Math.max(0, (job.nextRunAt ?? 0) - Date.now()) / 1000) + IDLE_TTL_SECONDS
+  const pipeline = redis.pipeline()
+  for (const key of [getJobsKey(uuid), getJobRunsKey(uuid)]) {
+    pipeline.expire(key, seconds, "NX")
+    pipeline.expire(key, seconds, "GT")
+  }
+  await pipeline.exec()
+
+  if (job.paused || job.nextRunAt === null) {
+    await redis.zrem(DUE_KEY, member)
+  } else {
+    await redis.zadd(DUE_KEY, { score: job.nextRunAt, member })
+  }
+}
+
+export async function removeJob(uuid: string, jobId: string) {
+  await redis.hdel(getJobsKey(uuid), jobId)
+  await redis.hdel(getJobRunsKey(uuid), jobId)
+  await redis.zrem(DUE_KEY, getDueMember(uuid, jobId))
+}
+
+// Take every job of a deleted endpoint out of the due set
+export async function removeJobs(uuid: string) {
+  const jobIds = await redis.hkeys(getJobsKey(uuid))
+  if (jobIds.length > 0) {
+    await redis.zrem(DUE_KEY, ...jobIds.map((jobId) => getDueMember(uuid, jobId)))
+  }
+}
+
+// Send the job's request and record the run; scheduled runs also move the job to its next time
+export async function runJob(uuid: string, job: ScheduledJob, { manual = false } = {}) {
+  const startedAt = Date.now()
+  // Move a scheduled job on before sending, so nothing that fails after the send can queue it to go again
+  if (!manual) {
+    const nextRunAt = job.schedule.type === "cron" ? getNextRunAt(job.schedule, startedAt) : null
+    await saveJob(uuid, { ...job, nextRunAt })
+  }
+
+  let run: JobRun
+  try {
+    const { response } = await deliverRequest(job.request)
+    run = {
+      id: uuidv4(),
+      timestamp: startedAt,
+      status: response.status,
+      statusText: response.statusText,
+      duration: response.duration,
+      error: response.error,
+    }
+  } catch (error) {
+    run = {
+      id: uuidv4(),
+      timestamp: startedAt,
+      status: null,
+      statusText: "",
+      duration: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : "Failed to send request",
+    }
+  }
+  if (manual) run.manual = true
+
+  // The request has gone out; losing its history is better than the sweep sending it again
+  try {
+    // Re-read so a pause or delete made while the request was in flight is kept
+    const latest = await getJob(uuid, job.id)
+    if (!latest) return { job: null, run }
+
+    const runs = await getJobRuns(uuid, job.id)
+    await redis.hset(getJobRunsKey(uuid), {
+      [job.id]: JSON.stringify([run, ...runs].slice(0, MAX_RUNS_PER_JOB)),
+    })
+
+    const updated: ScheduledJob = { ...latest, lastRun: run }
+    await saveJob(uuid, updated)
+    // A job firing counts as activity, so a heartbeat keeps its endpoint from expiring
+    await touchEndpoint(uuid)
+    return { job: updated, run }
+  } catch (error) {
+    console.error(`Error recording run of scheduled job ${job.id}:`, error)
+    return { job: null, run }
+  }
+}
+
+// Run every job whose time has come; schedule GET /api/cron/schedules every minute
+export async function runDueJobs(now = Date.now()) {
+  const due = await redis.zrange<string[]>(DUE_KEY, 0, now, { byScore: true, offset: 0, count: MAX_JOBS_PER_SWEEP })
+
+  const results = await Promise.allSettled(
+    due.map(async (member) => {
+      // Only the sweep that removes the entry runs the job, so overlapping sweeps never send twice
+      if (!(await redis.zrem(DUE_KEY, member))) return false
+      const [uuid, jobId] = member.split("/")
+      const job = await getJob(uuid, jobId)
+      // The endpoint expired or the job was paused or deleted since it was queued
+      if (!job || job.paused) return false
+      await runJob(uuid, job)
+      return true
+    })
+  )
+
+  // A run that failed before sending has already left the due set; put it back so the next sweep
+  // retries it rather than the job silently never running again
+  const failed = due.filter((member, index) => {
+    const result = results[index]
+    if (result.status === "fulfilled") return false
+    console.error(`Error running scheduled job ${member}:`, result.reason)
+    return true
+  })
+  if (failed.length > 0) {
+    const [first, ...rest] = failed.map((member) => ({ score: now, member }))
+    await redis.zadd(DUE_KEY, first, ...rest)
+  }
+
+  const ran = results.filter((result) => result.status === "fulfilled" && result.value).length
+  return { ran, failed: failed.length, due: due.length }
+}
+
+export function createJob(name: string, request: OutboundRequest, schedule: JobSchedule, now = Date.now()): ScheduledJob {
+  return {
+    id: uuidv4(),
+    name,
+    request,
+    schedule,
+    paused: false,
+    createdAt: now,
+    nextRunAt: getNextRunAt(schedule, now),
+  }
+}
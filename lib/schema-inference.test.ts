@@ -0,0 +1,167 @@
+import { describe, test } from "node:test"
+import assert from "node:assert/strict"
+import { z } from "zod"
+import { generateTypeScript, generateZod, getTypeName, inferSchema } from "./schema-inference"
+
+// Four pull_request deliveries that between them exercise enums, formats, optional keys and nulls
+const samples = [
+  {
+    action: "opened",
+    number: 1,
+    pull_request: { id: 10, html_url: "https://github.com/o/r/pull/1", merged_at: null, labels: [{ name: "bug" }] },
+    sender: { login: "octocat", email: "" },
+    created_at: "2024-05-01T10:00:00Z",
+  },
+  {
+    action: "closed",
+    number: 2,
+    pull_request: { id: 11, html_url: "https://github.com/o/r/pull/2", merged_at: "2024-05-02T10:00:00Z", labels: [] },
+    sender: { login: "hubot", email: "hubot@github.com" },
+    created_at: "2024-05-02T10:00:00Z",
+  },
+  {
+    action: "opened",
+    number: 3.5,
+    pull_request: { id: 12, html_url: "https://github.com/o/r/pull/3", merged_at: null, labels: [{ name: "docs", color: "fff" }] },
+    sender: { login: "octocat" },
+    created_at: "2024-05-03T10:00:00Z",
+    $meta: { v: 1 },
+  },
+  {
+    action: "closed",
+    number: 4,
+    pull_request: { id: 13, html_url: "https://github.com/o/r/pull/4", merged_at: null, labels: [] },
+    sender: { login: "octocat", email: "o@x.io" },
+    created_at: "2024-05-03T10:00:00Z",
+  },
+]
+
+const schema = inferSchema(samples, "pull_request")
+const name = getTypeName("pull_request")
+
+describe("inferSchema", () => {
+  test("merges samples into one schema", () => {
+    assert.equal(schema.title, "pull_request")
+    assert.deepEqual(schema.required, ["action", "number", "pull_request", "sender", "created_at"])
+    assert.deepEqual(schema.properties?.action, { type: "string", enum: ["closed", "opened"] })
+    assert.deepEqual(schema.properties?.number, { type: "number" })
+    assert.deepEqual(schema.properties?.pull_request.properties?.merged_at, {
+      anyOf: [{ type: "string", format: "date-time" }, { type: "null" }],
+    })
+  })
+
+  test("keeps a format when some values are empty strings", () => {
+    assert.deepEqual(schema.properties?.sender.properties?.email, {
+      anyOf: [{ type: "string", format: "email" }, { type: "string", enum: [""] }],
+    })
+    // A value that is neither empty nor in the format drops it
+    assert.deepEqual(inferSchema([{ url: "https://a.io" }, { url: "/relative" }]).properties?.url, { type: "string" })
+  })
+})
+
+describe("generateTypeScript", () => {
+  test("renders the fixture", () => {
+    assert.equal(name, "PullRequestPayload")
+    assert.equal(
+      generateTypeScript(schema, name),
+      `export interface PullRequestPayload {
+  action: "closed" | "opened"
+  number: number
+  pull_request: PullRequest
+  sender: Sender
+  created_at: string
+  $meta?: Meta
+}
+
+export interface PullRequest {
+  id: number
+  html_url: string
+  merged_at: string | null
+  labels: Label[]
+}
+
+export interface Label {
+  name: string
+  color?: string
+}
+
+export interface Sender {
+  login: "hubot" | "octocat"
+  email?: string
+}
+
+export interface Meta {
+  v: number
+}
+`
+    )
+  })
+
+  test("names keys made only of symbols apart from each other", () => {
+    const output = generateTypeScript(inferSchema([{ $: { a: 1 }, "@": { b: 1 }, "-": [{ c: 1 }] }]))
+    assert.match(output, /\$: Dollar\n {2}"@": At\n {2}"-": DashItem\[\]/)
+    assert.match(output, /export interface Dollar \{\n {2}a: number\n\}/)
+    assert.match(output, /export interface At \{\n {2}b: number\n\}/)
+  })
+
+  test("aliases a root that is not an object", () => {
+    assert.equal(generateTypeScript(inferSchema([1, "a", null])), "export type WebhookPayload = string | number | null\n")
+  })
+})
+
+describe("generateZod", () => {
+  const output = generateZod(schema, name)
+
+  test("renders the fixture", () => {
+    assert.equal(
+      output,
+      `import { z } from "zod"
+
+export const labelSchema = z.object({
+  name: z.string(),
+  color: z.string().optional(),
+})
+
+export const pullRequestSchema = z.object({
+  id: z.number().int(),
+  html_url: z.url(),
+  merged_at: z.iso.datetime({ offset: true }).nullable(),
+  labels: z.array(labelSchema),
+})
+
+export const senderSchema = z.object({
+  login: z.enum(["hubot", "octocat"]),
+  email: z.union([z.email(), z.literal("")]).optional(),
+})
+
+export const metaSchema = z.object({
+  v: z.number().int(),
+})
+
+export const pullRequestPayloadSchema = z.object({
+  action: z.enum(["closed", "opened"]),
+  number: z.number(),
+  pull_request: pullRequestSchema,
+  sender: senderSchema,
+  created_at: z.iso.datetime({ offset: true }),
+  $meta: metaSchema.optional(),
+})
+
+export type PullRequestPayload = z.infer<typeof pullRequestPayloadSchema>
+`
+    )
+  })
+
+  test("accepts every sample it was inferred from", () => {
+    // Run the generated module against the real zod, minus its import and type export
+    const body = output
+      .replace(/^import .*\n/m, "")
+      .replace(/^export type .*\n/m, "")
+      .replace(/^export const /gm, "const ")
+    const payloadSchema = new Function("z", `${body}\nreturn pullRequestPayloadSchema`)(z) as z.ZodType
+    for (const sample of samples) {
+      assert.equal(payloadSchema.safeParse(sample).success, true, JSON.stringify(sample))
+    }
+    assert.equal(payloadSchema.safeParse({ ...samples[0], action: "merged" }).success, false)
+  })
+})
@@ -0,0 +1,334 @@
+// Infer one JSON Schema from many sample payloads, then render it as TypeScript or zod source
+
+type JsonType = "null" | "boolean" | "integer" | "number" | "string" | "array" | "object"
+
+export type JsonSchema = {
+  $schema?: string
+  title?: string
+  type?: JsonType | JsonType[]
+  format?: string
+  enum?: string[]
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  items?: JsonSchema
+  anyOf?: JsonSchema[]
+}
+
+// Everything observed at one position across all samples
+type Shape = {
+  nulls: number
+  booleans: number
+  integers: number
+  numbers: number
+  // Formats seen in non-empty strings; null for a string that has none
+  strings: { count: number; empty: number; values: Map<string, number>; formats: Set<string | null> }
+  object: { count: number; properties: Map<string, Shape> } | null
+  array: { count: number; items: Shape } | null
+}
+
+// Strings with at most this many distinct values, each seen more than once overall, become enums
+const MAX_ENUM_VALUES = 5
+const MAX_ENUM_LENGTH = 50
+// Stop remembering values once a string is clearly free-form
+const MAX_TRACKED_VALUES = 20
+
+function createShape(): Shape {
+  return {
+    nulls: 0,
+    booleans: 0,
+    integers: 0,
+    numbers: 0,
+    strings: { count: 0, empty: 0, values: new Map(), formats: new Set() },
+    object: null,
+    array: null,
+  }
+}
+
+function detectFormat(value: string) {
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/.test(value)) return "date-time"
+  if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) return "uuid"
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) return "email"
+  if (/^https?:\/\/\S+$/.test(value)) return "uri"
+  return null
+}
+
+function addSample(shape: Shape, value: unknown) {
+  if (value === null || value === undefined) {
+    shape.nulls++
+  } else if (typeof value === "boolean") {
+    shape.booleans++
+  } else if (typeof value === "number") {
+    if (Number.isInteger(value)) shape.integers++
+    else shape.numbers++
+  } else if (typeof value === "string") {
+    const { strings } = shape
+    strings.count++
+    if (value === "") strings.empty++
+    else strings.formats.add(detectFormat(value))
+    if (strings.values.size < MAX_TRACKED_VALUES || strings.values.has(value)) {
+      strings.values.set(value, (strings.values.get(value) ?? 0) + 1)
+    }
+  } else if (Array.isArray(value)) {
+    shape.array ??= { count: 0, items: createShape() }
+    shape.array.count++
+    for (const item of value) addSample(shape.array.items, item)
+  } else if (typeof value === "object") {
+    shape.object ??= { count: 0, properties: new Map() }
+    shape.object.count++
+    for (const [key, child] of Object.entries(value)) {
+      let property = shape.object.properties.get(key)
+      if (!property) {
+        property = createShape()
+        shape.object.properties.set(key, property)
+      }
+      addSample(property, child)
+    }
+  }
+}
+
+function countSamples(shape: Shape) {
+  return shape.nulls + shape.booleans + shape.integers + shape.numbers + shape.strings.count +
+    (shape.object?.count ?? 0) + (shape.array?.count ?? 0)
+}
+
+function stringSchemas(strings: Shape["strings"]): JsonSchema[] {
+  const formats = [...strings.formats]
+  if (formats.length === 1 && formats[0]) {
+    // Senders often send "" for a missing URL or email, which should not cost the other values their format
+    const formatted: JsonSchema = { type: "string", format: formats[0] }
+    return strings.empty > 0 ? [formatted, { type: "string", enum: [""] }] : [formatted]
+  }
+
+  const values = [...strings.values.keys()]
+  const isEnum =
+    strings.values.size < MAX_TRACKED_VALUES &&
+    values.length <= MAX_ENUM_VALUES &&
+    values.length < strings.count &&
+    values.every((value) => value.length > 0 && value.length <= MAX_ENUM_LENGTH)
+  return [isEnum ? { type: "string", enum: values.sort() } : { type: "string" }]
+}
+
+function toJsonSchema(shape: Shape): JsonSchema {
+  const variants: JsonSchema[] = []
+
+  if (shape.object) {
+    const properties: Record<string, JsonSchema> = {}
+    const required: string[] = []
+    for (const [key, property] of shape.object.properties) {
+      properties[key] = toJsonSchema(property)
+      // A key is required when every object sample carried it, even as null
+      if (countSamples(property) >= shape.object.count) required.push(key)
+    }
+    variants.push({ type: "object", properties, ...(required.length > 0 && { required }) })
+  }
+  if (shape.array) {
+    const hasItems = countSamples(shape.array.items) > 0
+    variants.push({ type: "array", ...(hasItems && { items: toJsonSchema(shape.array.items) }) })
+  }
+  if (shape.strings.count > 0) variants.push(...stringSchemas(shape.strings))
+  if (shape.numbers > 0) variants.push({ type: "number" })
+  else if (shape.integers > 0) variants.push({ type: "integer" })
+  if (shape.booleans > 0) variants.push({ type: "boolean" })
+  if (shape.nulls > 0) variants.push({ type: "null" })
+
+  if (variants.length === 0) return {}
+  if (variants.length === 1) return variants[0]
+  // Plain types collapse into a type list; anything with keywords needs anyOf
+  if (variants.every((variant) => Object.keys(variant).length === 1)) {
+    return { type: variants.map((variant) => variant.type as JsonType) }
+  }
+  return { anyOf: variants }
+}
+
+// Merge every sample into one draft-07 schema; keys missing from some samples become optional
+export function inferSchema(samples: unknown[], title?: string): JsonSchema {
+  const shape = createShape()
+  for (const sample of samples) addSample(shape, sample)
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    ...(title && { title }),
+    ...toJsonSchema(shape),
+  }
+}
+
+const SYMBOL_NAMES: Record<string, string> = {
+  "$": "Dollar",
+  "@": "At",
+  "#": "Hash",
+  "-": "Dash",
+  "_": "Underscore",
+  ".": "Dot",
+  "+": "Plus",
+  "*": "Star",
+}
+
+function pascalCase(value: string) {
+  const name = value
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((part) => part[0].toUpperCase() + part.slice(1))
+    .join("")
+  if (name) return /^[0-9]/.test(name) ? `_${name}` : name
+  // Keys made only of symbols, such as "$" or "@", are named after them so siblings stay apart
+  const symbols = [...value].map((char) => SYMBOL_NAMES[char] ?? `U${char.codePointAt(0)!.toString(16).toUpperCase()}`)
+  return symbols.length > 0 ? symbols.join("") : "Value"
+}
+
+// Root type name for an event type, e.g. "pull_request.opened" -> PullRequestOpenedPayload
+export function getTypeName(eventType?: string) {
+  return eventType ? `${pascalCase(eventType)}Payload` : "WebhookPayload"
+}
+
+function singular(name: string) {
+  if (name.endsWith("ies")) return `${name.slice(0, -3)}y`
+  if (name.endsWith("s") && !name.endsWith("ss")) return name.slice(0, -1)
+  return `${name}Item`
+}
+
+function propertyKey(key: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)
+}
+
+// Keys such as "object" or "error" must not shadow the globals of the same name
+const RESERVED_NAMES = ["Array", "Boolean", "Date", "Error", "Function", "Map", "Number", "Object", "Promise", "Record", "Set", "String", "Symbol"]
+
+// Names derived from keys, disambiguated with the parent's name on collision
+function createNamer() {
+  const used = new Set<string>(RESERVED_NAMES)
+  return (name: string, parent?: string) => {
+    let candidate = name
+    if (used.has(candidate) && parent) candidate = `${parent}${name}`
+    for (let i = 2; used.has(candidate); i++) candidate = `${name}${i}`
+    used.add(candidate)
+    return candidate
+  }
+}
+
+function getTypes(schema: JsonSchema): JsonType[] {
+  if (!schema.type) return []
+  return Array.isArray(schema.type) ? schema.type : [schema.type]
+}
+
+function union(parts: string[]) {
+  const unique = [...new Set(parts)]
+  // A string literal adds nothing beside string itself
+  return (unique.includes("string") ? unique.filter((part) => !part.startsWith('"')) : unique).join(" | ")
+}
+
+export function generateTypeScript(schema: JsonSchema, rootName = "WebhookPayload") {
+  const declarations: string[] = []
+  const nameFor = createNamer()
+
+  const render = (node: JsonSchema, name: string, parent?: string): string => {
+    if (node.anyOf) return union(node.anyOf.map((variant) => render(variant, name, parent)))
+    if (node.enum) return union(node.enum.map((value) => JSON.stringify(value)))
+
+    const types = getTypes(node)
+    if (types.length === 0) return "unknown"
+    return union(types.map((type) => {
+      switch (type) {
+        case "string":
+          return "string"
+        case "integer":
+        case "number":
+          return "number"
+        case "boolean":
+          return "boolean"
+        case "null":
+          return "null"
+        case "array": {
+          const item = node.items ? render(node.items, singular(name), parent) : "unknown"
+          return item.includes(" | ") ? `(${item})[]` : `${item}[]`
+        }
+        case "object": {
+          const entries = Object.entries(node.properties ?? {})
+          if (entries.length === 0) return "Record<string, unknown>"
+          const interfaceName = nameFor(name, parent)
+          // Reserve the slot first so parents are declared above their children
+          const index = declarations.push("") - 1
+          const required = new Set(node.required ?? [])
+          const lines = entries.map(([key, property]) => {
+            const optional = required.has(key) ? "" : "?"
+            return `  ${propertyKey(key)}${optional}: ${render(property, pascalCase(key), interfaceName)}`
+          })
+          declarations[index] = `export interface ${interfaceName} {\n${lines.join("\n")}\n}`
+          return interfaceName
+        }
+      }
+    }))
+  }
+
+  const root = render(schema, rootName)
+  if (!declarations.length || root !== rootName) {
+    declarations.unshift(`export type ${rootName} = ${root}`)
+  }
+  return declarations.join("\n\n") + "\n"
+}
+
+const ZOD_FORMATS: Record<string, string> = {
+  "date-time": "z.iso.datetime({ offset: true })",
+  email: "z.email()",
+  uri: "z.url()",
+  uuid: "z.uuid()",
+}
+
+function camelCase(name: string) {
+  return name[0].toLowerCase() + name.slice(1)
+}
+
+export function generateZod(schema: JsonSchema, rootName = "WebhookPayload") {
+  const declarations: string[] = []
+  const nameFor = createNamer()
+
+  const render = (node: JsonSchema, name: string, parent?: string): string => {
+    const variants = node.anyOf
+      ? node.anyOf.map((variant) => render(variant, name, parent))
+      : node.enum
+        ? [node.enum.length === 1 ? `z.literal(${JSON.stringify(node.enum[0])})` : `z.enum([${node.enum.map((value) => JSON.stringify(value)).join(", ")}])`]
+        : getTypes(node).map((type) => {
+          switch (type) {
+            case "string":
+              return (node.format && ZOD_FORMATS[node.format]) || "z.string()"
+            case "integer":
+              return "z.number().int()"
+            case "number":
+              return "z.number()"
+            case "boolean":
+              return "z.boolean()"
+            case "null":
+              return "z.null()"
+            case "array":
+              return `z.array(${node.items ? render(node.items, singular(name), parent) : "z.unknown()"})`
+            case "object": {
+              const entries = Object.entries(node.properties ?? {})
+              if (entries.length === 0) return "z.record(z.string(), z.unknown())"
+              const resolved = nameFor(name, parent)
+              const schemaName = `${camelCase(resolved)}Schema`
+              const required = new Set(node.required ?? [])
+              // Children render first so every const is declared before it is used
+              const lines = entries.map(([key, property]) => {
+                const value = render(property, pascalCase(key), resolved)
+                return `  ${propertyKey(key)}: ${value}${required.has(key) ? "" : ".optional()"},`
+              })
+              declarations.push(`export const ${schemaName} = z.object({\n${lines.join("\n")}\n})`)
+              return schemaName
+            }
+          }
+        })
+
+    if (variants.length === 0) return "z.unknown()"
+    if (variants.length === 1) return variants[0]
+    // A single type or null reads better as .nullable()
+    const nonNull = variants.filter((variant) => variant !== "z.null()")
+    if (nonNull.length === 1) return `${nonNull[0]}.nullable()`
+    return `z.union([${variants.join(", ")}])`
+  }
+
+  const root = render(schema, rootName)
+  const rootSchema = `${camelCase(rootName)}Schema`
+  if (root !== rootSchema) {
+    declarations.push(`export const ${rootSchema} = ${root}`)
+  }
+  declarations.push(`export type ${rootName} = z.infer<typeof ${rootSchema}>`)
+  return `import { z } from "zod"\n\n${declarations.join("\n\n")}\n`
+}
@@ -0,0 +1,52 @@
+import { describe, test } from "node:test"
+import assert from "node:assert/strict"
+import { validatePayload } from "./schema-validation"
+
+const custom = (schema: unknown) => ({ source: "custom", schema: JSON.stringify(schema), rejectInvalid: false })
+
+describe("validatePayload", () => {
+  test("rejects a missing required key that has no properties entry", () => {
+    const result = validatePayload({ type: 1 }, custom({ type: "object", required: ["a"] }))
+    assert.equal(result?.status, "invalid")
+    assert.equal(result?.errors[0].path, "$.a")
+  })
+
+  test("rejects a missing required key next to other properties", () => {
+    const schema = { properties: { b: { type: "string" } }, required: ["a"] }
+    assert.equal(validatePayload({ b: "x" }, custom(schema))?.status, "invalid")
+    assert.equal(validatePayload({ a: null, b: "x" }, custom(schema))?.status, "valid")
+  })
+
+  test("checks required keys at every nesting level", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        items: { type: "array", items: { required: ["id"] } },
+        meta: { anyOf: [{ type: "null" }, { type: "object", required: ["source"] }] },
+      },
+    }
+    assert.equal(validatePayload({ items: [{ id: 1 }], meta: null }, custom(schema))?.status, "valid")
+    assert.equal(validatePayload({ items: [{ id: 1 }, {}] }, custom(schema))?.status, "invalid")
+    assert.equal(validatePayload({ items: [], meta: {} }, custom(schema))?.status, "invalid")
+  })
+
+  test("bundled GitHub pull_request schema rejects empty nested objects", () => {
+    const settings = { source: "github-pull-request", rejectInvalid: false }
+    const payload = {
+      action: "opened",
+      number: 1,
+      pull_request: { id: 1, number: 1, state: "open", title: "Fix", head: { ref: "a", sha: "1" }, base: { ref: "main", sha: "2" } },
+      repository: { id: 1, full_name: "octocat/hello-world" },
+      sender: { login: "octocat" },
+    }
+    assert.equal(validatePayload(payload, settings)?.status, "valid")
+
+    const emptied = { ...payload, pull_request: { ...payload.pull_request, head: {}, base: {} }, repository: {}, sender: {} }
+    const result = validatePayload(emptied, settings)
+    assert.equal(result?.status, "invalid")
+    const paths = result!.errors.map((error) => error.path)
+    for (const path of ["$.pull_request.head.ref", "$.pull_request.base.sha", "$.repository.full_name", "$.sender.login"]) {
+      assert.ok(paths.includes(path), `expected an error at ${path}`)
+    }
+  })
+})
@@ -0,0 +1,278 @@
+import z from "zod"
+import { appendPathKey } from "./jsonpath"
+
+export type SchemaValidationSettings = {
+  // "custom" uses the schema text below; anything else is a bundled schema id
+  source: string
+  schema?: string
+  // Answer 400 with the errors instead of the configured response
+  rejectInvalid: boolean
+}
+
+export type SchemaValidationError = {
+  // JSONPath into the body, e.g. $.data.object.amount
+  path: string
+  message: string
+}
+
+export type SchemaValidation = {
+  // "error" means the schema itself could not be used, so the payload was not judged
+  status: "valid" | "invalid" | "error"
+  schema: string
+  errors: SchemaValidationError[]
+}
+
+export const DEFAULT_SCHEMA_VALIDATION: SchemaValidationSettings = {
+  source: "",
+  rejectInvalid: false,
+}
+
+// Envelope schemas for common senders; they check the documented fields and allow anything extra
+export const BUNDLED_SCHEMAS: { id: string; label: string; schema: Record<string, unknown> }[] = [
+  {
+    id: "stripe-event",
+    label: "Stripe event",
+    schema: {
+      type: "object",
+      required: ["id", "object", "type", "created", "livemode", "data"],
+      properties: {
+        id: { type: "string", pattern: "^evt_" },
+        object: { const: "event" },
+        type: { type: "string", pattern: "^[a-z_]+(\\.[a-z_]+)+$" },
+        api_version: { type: ["string", "null"] },
+        created: { type: "integer" },
+        livemode: { type: "boolean" },
+        pending_webhooks: { type: "integer", minimum: 0 },
+        data: {
+          type: "object",
+          required: ["object"],
+          properties: {
+            object: { type: "object", required: ["id", "object"], properties: { id: { type: "string" }, object: { type: "string" } } },
+            previous_attributes: { type: "object" },
+          },
+        },
+      },
+    },
+  },
+  {
+    id: "github-push",
+    label: "GitHub push",
+    schema: {
+      type: "object",
+      required: ["ref", "before", "after", "repository", "pusher", "sender", "commits"],
+      properties: {
+        ref: { type: "string", pattern: "^refs/" },
+        before: { type: "string", pattern: "^[0-9a-f]{40}$" },
+        after: { type: "string", pattern: "^[0-9a-f]{40}$" },
+        repository: { type: "object", required: ["id", "full_name"], properties: { id: { type: "integer" }, full_name: { type: "string" } } },
+        pusher: { type: "object", required: ["name"], properties: { name: { type: "string" } } },
+        sender: { type: "object", required: ["login"], properties: { login: { type: "string" } } },
+        commits: {
+          type: "array",
+          items: { type: "object", required: ["id", "message"], properties: { id: { type: "string" }, message: { type: "string" } } },
+        },
+      },
+    },
+  },
+  {
+    id: "github-pull-request",
+    label: "GitHub pull_request",
+    schema: {
+      type: "object",
+      required: ["action", "number", "pull_request", "repository", "sender"],
+      properties: {
+        action: { type: "string" },
+        number: { type: "integer" },
+        pull_request: {
+          type: "object",
+          required: ["id", "number", "state", "title", "head", "base"],
+          properties: {
+            id: { type: "integer" },
+            number: { type: "integer" },
+            state: { enum: ["open", "closed"] },
+            title: { type: "string" },
+            head: { type: "object", required: ["ref", "sha"], properties: { ref: { type: "string" }, sha: { type: "string" } } },
+            base: { type: "object", required: ["ref", "sha"], properties: { ref: { type: "string" }, sha: { type: "string" } } },
+          },
+        },
+        repository: { type: "object", required: ["id", "full_name"], properties: { id: { type: "integer" }, full_name: { type: "string" } } },
+        sender: { type: "object", required: ["login"], properties: { login: { type: "string" } } },
+      },
+    },
+  },
+  {
+    id: "shopify-order",
+    label: "Shopify order",
+    schema: {
+      type: "object",
+      required: ["id", "name", "currency", "total_price", "line_items", "created_at"],
+      properties: {
+        id: { type: "integer" },
+        name: { type: "string" },
+        email: { type: ["string", "null"] },
+        currency: { type: "string", pattern: "^[A-Z]{3}$" },
+        total_price: { type: "string", pattern: "^\\d+(\\.\\d+)?$" },
+        created_at: { type: "string" },
+        line_items: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["id", "quantity", "price"],
+            properties: { id: { type: "integer" }, quantity: { type: "integer", minimum: 1 }, price: { type: "string" } },
+          },
+        },
+      },
+    },
+  },
+  {
+    id: "slack-event",
+    label: "Slack Events API",
+    schema: {
+      type: "object",
+      required: ["type"],
+      properties: {
+        type: { enum: ["url_verification", "event_callback", "app_rate_limited"] },
+        token: { type: "string" },
+        challenge: { type: "string" },
+        team_id: { type: "string" },
+        event_id: { type: "string" },
+        event_time: { type: "integer" },
+        event: { type: "object", required: ["type"], properties: { type: { type: "string" } } },
+      },
+    },
+  },
+  {
+    id: "discord-interaction",
+    label: "Discord interaction",
+    schema: {
+      type: "object",
+      required: ["id", "application_id", "type", "token", "version"],
+      properties: {
+        id: { type: "string" },
+        application_id: { type: "string" },
+        type: { enum: [1, 2, 3, 4, 5] },
+        token: { type: "string" },
+        version: { const: 1 },
+        data: { type: "object" },
+      },
+    },
+  },
+]
+
+const MAX_ERRORS = 20
+
+function getSchemaText(settings: SchemaValidationSettings) {
+  if (settings.source === "custom") return settings.schema?.trim() || null
+  const bundled = BUNDLED_SCHEMAS.find((item) => item.id === settings.source)
+  return bundled ? JSON.stringify(bundled.schema) : null
+}
+
+function getSchemaLabel(settings: SchemaValidationSettings) {
+  return BUNDLED_SCHEMAS.find((item) => item.id === settings.source)?.label ?? "Custom schema"
+}
+
+type SchemaNode = Record<string, unknown>
+
+const SUBSCHEMA_KEYWORDS = ["additionalProperties", "additionalItems", "items", "contains", "propertyNames", "not", "if", "then", "else", "unevaluatedProperties", "unevaluatedItems"]
+const SUBSCHEMA_LIST_KEYWORDS = ["allOf", "anyOf", "oneOf", "prefixItems", "items"]
+const SUBSCHEMA_MAP_KEYWORDS = ["properties", "patternProperties", "dependentSchemas", "$defs", "definitions"]
+
+function isSchemaNode(value: unknown): value is SchemaNode {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+// zod's converter only checks required keys that also appear in properties, and ignores object
+// keywords without a type, so spell both out at every level before converting
+function normalizeSchema(schema: unknown): unknown {
+  if (!isSchemaNode(schema)) return schema
+  const node: SchemaNode = { ...schema }
+
+  for (const keyword of SUBSCHEMA_KEYWORDS) {
+    if (isSchemaNode(node[keyword])) node[keyword] = normalizeSchema(node[keyword])
+  }
+  for (const keyword of SUBSCHEMA_LIST_KEYWORDS) {
+    if (Array.isArray(node[keyword])) node[keyword] = (node[keyword] as unknown[]).map(normalizeSchema)
+  }
+  for (const keyword of SUBSCHEMA_MAP_KEYWORDS) {
+    if (isSchemaNode(node[keyword])) {
+      node[keyword] = Object.fromEntries(
+        Object.entries(node[keyword] as SchemaNode).map(([key, value]) => [key, normalizeSchema(value)])
+      )
+    }
+  }
+
+  const required = Array.isArray(node.required) ? (node.required as unknown[]).filter((key) => typeof key === "string") : []
+  if (required.length > 0) {
+    const properties = isSchemaNode(node.properties) ? { ...node.properties } : {}
+    for (const key of required) {
+      if (!(key in properties)) properties[key] = {}
+    }
+    node.properties = properties
+  }
+  // Stricter than the spec, which lets non-objects through here, but a body that should have keys is never a bare value
+  if (node.type === undefined && (required.length > 0 || isSchemaNode(node.properties))) {
+    node.type = "object"
+  }
+  return node
+}
+
+// Converting a schema is far slower than running it, so keep recent ones per schema text
+const compiled = new Map<string, z.ZodType>()
+
+function compileSchema(text: string) {
+  let schema = compiled.get(text)
+  if (!schema) {
+    schema = z.fromJSONSchema(normalizeSchema(JSON.parse(text)) as Parameters<typeof z.fromJSONSchema>[0])
+    if (compiled.size >= 50) compiled.clear()
+    compiled.set(text, schema)
+  }
+  return schema
+}
+
+// Returns a message describing why a schema cannot be used, or null when it compiles
+export function checkSchema(text: string) {
+  try {
+    compileSchema(text)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : "Invalid schema"
+  }
+}
+
+function formatPath(path: PropertyKey[]) {
+  return path.reduce<string>(
+    (result, key) => (typeof key === "number" ? `${result}[${key}]` : appendPathKey(result, String(key))),
+    "$"
+  )
+}
+
+export function isValidationActive(settings?: SchemaValidationSettings): settings is SchemaValidationSettings {
+  return Boolean(settings && getSchemaText(settings))
+}
+
+// Validate the parsed body; returns null when the endpoint has no schema configured
+export function validatePayload(body: unknown, settings?: SchemaValidationSettings): SchemaValidation | null {
+  if (!isValidationActive(settings)) return null
+  const schema = getSchemaLabel(settings)
+
+  let validator: z.ZodType
+  try {
+    validator = compileSchema(getSchemaText(settings)!)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Invalid schema"
+    return { status: "error", schema, errors: [{ path: "$", message: `Schema could not be used: ${message}` }] }
+  }
+
+  const result = validator.safeParse(body)
+  if (result.success) {
+    return { status: "valid", schema, errors: [] }
+  }
+  return {
+    status: "invalid",
+    schema,
+    errors: result.error.issues.slice(0, MAX_ERRORS).map((issue) => ({
+      path: formatPath(issue.path),
+      message: issue.message,
+    })),
+  }
+}
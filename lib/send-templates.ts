@@ -0,0 +1,188 @@
+import { type SignatureProvider } from "./signatures"
+
+export type SendTemplate = {
+  id: string
+  label: string
+  // Scheme the request is signed with when a secret is given
+  provider: SignatureProvider
+  method: string
+  headers: () => Record<string, string>
+  body: () => unknown
+}
+
+function randomId(prefix: string, length = 24) {
+  const alphabet = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789"
+  let id = prefix
+  for (let i = 0; i < length; i++) id += alphabet[Math.floor(Math.random() * alphabet.length)]
+  return id
+}
+
+function randomHex(length: number) {
+  let hex = ""
+  for (let i = 0; i < length; i++) hex += Math.floor(Math.random() * 16).toString(16)
+  return hex
+}
+
+function randomNumber() {
+  return Math.floor(1_000_000_000 + Math.random() * 9_000_000_000)
+}
+
+const GITHUB_REPOSITORY = {
+  id: 1296269,
+  name: "hello-world",
+  full_name: "octocat/hello-world",
+  private: false,
+  html_url: "https://github.com/octocat/hello-world",
+  default_branch: "main",
+}
+
+const GITHUB_SENDER = { login: "octocat", id: 1, type: "User" }
+
+function githubHeaders(event: string) {
+  return {
+    "content-type": "application/json",
+    "user-agent": "GitHub-Hookshot/eHook",
+    "x-github-event": event,
+    "x-github-delivery": crypto.randomUUID(),
+    "x-github-hook-id": "123456789",
+  }
+}
+
+function stripeEvent(type: string, object: Record<string, unknown>) {
+  return {
+    id: randomId("evt_"),
+    object: "event",
+    api_version: "2024-06-20",
+    created: Math.floor(Date.now() / 1000),
+    type,
+    livemode: false,
+    pending_webhooks: 1,
+    request: { id: randomId("req_", 14), idempotency_key: crypto.randomUUID() },
+    data: { object },
+  }
+}
+
+const STRIPE_HEADERS = () => ({
+  "content-type": "application/json; charset=utf-8",
+  "user-agent": "Stripe/1.0 (+https://stripe.com/docs/webhooks)",
+})
+
+// Sample deliveries shaped like the providers' documented payloads, with fresh ids and timestamps
+export const SEND_TEMPLATES: SendTemplate[] = [
+  {
+    id: "stripe-payment-intent-succeeded",
+    label: "Stripe payment_intent.succeeded",
+    provider: "stripe",
+    method: "POST",
+    headers: STRIPE_HEADERS,
+    body: () =>
+      stripeEvent("payment_intent.succeeded", {
+        id: randomId("pi_"),
+        object: "payment_intent",
+        amount: 2000,
+        amount_received: 2000,
+        currency: "usd",
+        customer: randomId("cus_", 14),
+        status: "succeeded",
+        metadata: {},
+      }),
+  },
+  {
+    id: "stripe-invoice-paid",
+    label: "Stripe invoice.paid",
+    provider: "stripe",
+    method: "POST",
+    headers: STRIPE_HEADERS,
+    body: () =>
+      stripeEvent("invoice.paid", {
+        id: randomId("in_"),
+        object: "invoice",
+        amount_paid: 4900,
+        currency: "usd",
+        customer: randomId("cus_", 14),
+        subscription: randomId("sub_"),
+        status: "paid",
+      }),
+  },
+  {
+    id: "github-push",
+    label: "GitHub push",
+    provider: "github",
+    method: "POST",
+    headers: () => githubHeaders("push"),
+    body: () => {
+      const after = randomHex(40)
+      return {
+        ref: "refs/heads/main",
+        before: randomHex(40),
+        after,
+        repository: GITHUB_REPOSITORY,
+        pusher: { name: "octocat", email: "octocat@github.com" },
+        sender: GITHUB_SENDER,
+        head_commit: { id: after, message: "Update README", timestamp: new Date().toISOString() },
+        commits: [{ id: after, message: "Update README", author: { name: "Octocat", email: "octocat@github.com" } }],
+      }
+    },
+  },
+  {
+    id: "github-pull-request-opened",
+    label: "GitHub pull_request opened",
+    provider: "github",
+    method: "POST",
+    headers: () => githubHeaders("pull_request"),
+    body: () => {
+      const number = Math.floor(1 + Math.random() * 999)
+      return {
+        action: "opened",
+        number,
+        pull_request: {
+          id: randomNumber(),
+          number,
+          state: "open",
+          title: "Add webhook handler",
+          user: GITHUB_SENDER,
+          html_url: `${GITHUB_REPOSITORY.html_url}/pull/${number}`,
+          head: { ref: "feature/webhooks", sha: randomHex(40) },
+          base: { ref: "main", sha: randomHex(40) },
+        },
+        repository: GITHUB_REPOSITORY,
+        sender: GITHUB_SENDER,
+      }
+    },
+  },
+  {
+    id: "shopify-orders-create",
+    label: "Shopify orders/create",
+    provider: "shopify",
+    method: "POST",
+    headers: () => ({
+      "content-type": "application/json",
+      "x-shopify-topic": "orders/create",
+      "x-shopify-shop-domain": "example.myshopify.com",
+      "x-shopify-api-version": "2024-07",
+      "x-shopify-webhook-id": crypto.randomUUID(),
+    }),
+    body: () => {
+      const id = randomNumber()
+      return {
+        id,
+        name: `#${1000 + (id % 9000)}`,
+        email: "customer@example.com",
+        currency: "USD",
+        total_price: "59.00",
+        financial_status: "paid",
+        created_at: new Date().toISOString(),
+        line_items: [{ id: randomNumber(), title: "T-shirt", quantity: 2, price: "29.50" }],
+      }
+    },
+  },
+]
+
+// A ready-to-send request for the template: pretty-printed body and fresh headers
+export function renderTemplate(template: SendTemplate) {
+  return {
+    method: template.method,
+    headers: template.headers(),
+    body: JSON.stringify(template.body(), null, 2),
+  }
+}
@@ -0,0 +1,80 @@
+import { createPrivateKey, sign } from "node:crypto"
+import { hmac } from "./signature-verifier"
+import { type SignatureProvider } from "./signatures"
+
+type OutgoingRequest = {
+  url: string
+  body: string
+  contentType: string
+}
+
+// PKCS#8 wrapper for a raw 32-byte Ed25519 seed
+const ED25519_PKCS8_PREFIX = "302e020100300506032b657004220420"
+
+function signStripe(secret: string, request: OutgoingRequest, timestamp: number) {
+  const signature = hmac("sha256", secret, `${timestamp}.`, request.body).digest("hex")
+  return { "stripe-signature": `t=${timestamp},v1=${signature}` }
+}
+
+function signGitHub(secret: string, request: OutgoingRequest) {
+  return {
+    "x-hub-signature": `sha1=${hmac("sha1", secret, request.body).digest("hex")}`,
+    "x-hub-signature-256": `sha256=${hmac("sha256", secret, request.body).digest("hex")}`,
+  }
+}
+
+function signSlack(secret: string, request: OutgoingRequest, timestamp: number) {
+  return {
+    "x-slack-request-timestamp": String(timestamp),
+    "x-slack-signature": `v0=${hmac("sha256", secret, `v0:${timestamp}:`, request.body).digest("hex")}`,
+  }
+}
+
+function signShopify(secret: string, request: OutgoingRequest) {
+  return { "x-shopify-hmac-sha256": hmac("sha256", secret, request.body).digest("base64") }
+}
+
+// Same payload as the verifier: the full URL followed by every form parameter sorted by name
+function signTwilio(secret: string, request: OutgoingRequest) {
+  let payload = request.url
+  if (request.contentType.includes("application/x-www-form-urlencoded")) {
+    const params = new URLSearchParams(request.body)
+    for (const key of Array.from(new Set(params.keys())).sort()) {
+      for (const value of params.getAll(key)) {
+        payload += key + value
+      }
+    }
+  }
+  return { "x-twilio-signature": hmac("sha1", secret, payload).digest("base64") }
+}
+
+// Discord receivers hold the public key, so sending needs the private seed in hex
+function signDiscord(seed: string, request: OutgoingRequest, timestamp: number) {
+  if (!/^[0-9a-f]{64}$/i.test(seed)) {
+    throw new Error("Discord signing needs a 32-byte Ed25519 private key seed in hex")
+  }
+  const key = createPrivateKey({
+    key: Buffer.from(ED25519_PKCS8_PREFIX + seed, "hex"),
+    format: "der",
+    type: "pkcs8",
+  })
+  const signature = sign(null, Buffer.from(`${timestamp}${request.body}`), key)
+  return {
+    "x-signature-ed25519": signature.toString("hex"),
+    "x-signature-timestamp": String(timestamp),
+  }
+}
+
+const SIGNERS: Record<SignatureProvider, (secret: string, request: OutgoingRequest, timestamp: number) => Record<string, string>> = {
+  stripe: signStripe,
+  github: signGitHub,
+  slack: signSlack,
+  shopify: signShopify,
+  twilio: signTwilio,
+  discord: signDiscord,
+}
+
+// Headers the provider would attach to this delivery; verifySignature accepts them with the matching secret
+export function signRequest(provider: SignatureProvider, secret: string, request: OutgoingRequest, now = Date.now()) {
+  return SIGNERS[provider](secret.trim(), request, Math.floor(now / 1000))
+}
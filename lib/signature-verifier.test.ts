@@ -0,0 +1,141 @@
+import { describe, test } from "node:test"
+import assert from "node:assert/strict"
+import { generateKeyPairSync, sign } from "node:crypto"
+import { verifySignature } from "./signature-verifier"
+
+const encode = (text: string) => new TextEncoder().encode(text)
+
+function signed(headers: Record<string, string>, body: string, options: { url?: string; contentType?: string; receivedAt?: number } = {}) {
+  return {
+    url: options.url ?? "https://example.com/api/webhook/test",
+    headers,
+    rawBody: encode(body),
+    contentType: options.contentType ?? "application/json",
+    receivedAt: options.receivedAt ?? Date.now(),
+  }
+}
+
+describe("verifySignature", () => {
+  test("returns null for unsigned requests and unverified without a secret", () => {
+    assert.equal(verifySignature(signed({}, "{}"), { github: "secret" }), null)
+    const result = verifySignature(signed({ "x-hub-signature-256": "sha256=00" }, "{}"))
+    assert.equal(result?.status, "unverified")
+  })
+
+  // Example from GitHub's "Validating webhook deliveries" docs
+  test("GitHub", () => {
+    const secrets = { github: "It's a Secret to Everybody" }
+    const signature = "sha256=757107ea0eb2509fc211221cce984b8a37570b6d7586c22c46f4379c8b043e17"
+    assert.equal(verifySignature(signed({ "x-hub-signature-256": signature }, "Hello, World!"), secrets)?.status, "valid")
+    assert.equal(verifySignature(signed({ "x-hub-signature-256": signature }, "Hello, World?"), secrets)?.status, "invalid")
+  })
+
+  describe("Stripe", () => {
+    const secrets = { stripe: "whsec_test_secret" }
+    const body = '{"id":"evt_1","type":"payment_intent.succeeded"}'
+    const v1 = "22d8dc182f5c588077683bd378368e29765bfe5df2560112b4f28fef120f0e31"
+    const at = (seconds: number) => ({ receivedAt: seconds * 1000 })
+
+    test("accepts a matching v1 signature among several", () => {
+      const header = `t=1700000000,v1=${"0".repeat(64)},v1=${v1},v0=ignored`
+      assert.equal(verifySignature(signed({ "stripe-signature": header }, body, at(1700000000)), secrets)?.status, "valid")
+    })
+
+    test("enforces the five-minute timestamp tolerance", () => {
+      const header = `t=1700000000,v1=${v1}`
+      assert.equal(verifySignature(signed({ "stripe-signature": header }, body, at(1700000300)), secrets)?.status, "valid")
+      const late = verifySignature(signed({ "stripe-signature": header }, body, at(1700000301)), secrets)
+      assert.equal(late?.status, "invalid")
+      assert.match(late?.reason ?? "", /tolerance/)
+    })
+
+    test("rejects a header without a timestamp or signature as malformed", () => {
+      for (const header of [`v1=${v1}`, "t=1700000000", "garbage"]) {
+        const result = verifySignature(signed({ "stripe-signature": header }, body, at(1700000000)), secrets)
+        assert.equal(result?.status, "invalid")
+        assert.equal(result?.reason, "Malformed Stripe-Signature header")
+      }
+    })
+  })
+
+  // Example from Slack's "Verifying requests from Slack" docs
+  describe("Slack", () => {
+    const secrets = { slack: "8f742231b10e8888abcd99yyyzzz85a5" }
+    const body =
+      "token=xyzz0WbapA4vBCDEFasx0q6G&team_id=T1DC2JH3J&team_domain=testteamnow&channel_id=G8PSS9T3V" +
+      "&channel_name=foobar&user_id=U2CERLKJA&user_name=roadrunner&command=%2Fwebhook-collect&text=" +
+      "&response_url=https%3A%2F%2Fhooks.slack.com%2Fcommands%2FT1DC2JH3J%2F397700885554%2F96rGlfmibIGlgcZRskXaIFfN" +
+      "&trigger_id=398738663015.47445629121.803a0bc887a14d10d2c447fce8b6703c"
+    const headers = {
+      "x-slack-signature": "v0=a2114d57b48eac39b9ad189dd8316235a7b4a8d21a10bd27519666489c69b503",
+      "x-slack-request-timestamp": "1531420618",
+    }
+
+    test("accepts the documented request within the tolerance", () => {
+      assert.equal(verifySignature(signed(headers, body, { receivedAt: 1531420618_000 }), secrets)?.status, "valid")
+      assert.equal(verifySignature(signed(headers, body, { receivedAt: 1531420318_000 }), secrets)?.status, "valid")
+    })
+
+    test("rejects a stale timestamp and a missing one", () => {
+      const stale = verifySignature(signed(headers, body, { receivedAt: 1531420919_000 }), secrets)
+      assert.match(stale?.reason ?? "", /tolerance/)
+      const missing = verifySignature(signed({ "x-slack-signature": headers["x-slack-signature"] }, body), secrets)
+      assert.equal(missing?.status, "invalid")
+    })
+  })
+
+  // Example from Twilio's "Webhooks security" docs
+  describe("Twilio", () => {
+    const secrets = { twilio: "12345" }
+    const body = "CallSid=CA1234567890ABCDE&Caller=%2B12349013030&Digits=1234&From=%2B12349013030&To=%2B18005551212"
+    const headers = { "x-twilio-signature": "0/KCTR6DLpKmkAf8muzZqo1nDgQ=" }
+    const contentType = "application/x-www-form-urlencoded"
+
+    test("signs the URL followed by the sorted form parameters", () => {
+      const request = signed(headers, body, { url: "https://mycompany.com/myapp.php?foo=1&bar=2", contentType })
+      assert.equal(verifySignature(request, secrets)?.status, "valid")
+    })
+
+    test("rebuilds the public URL from the forwarded protocol and host", () => {
+      const request = signed(
+        { ...headers, "x-forwarded-proto": "https", "x-forwarded-host": "mycompany.com" },
+        body,
+        { url: "http://10.0.0.7:3000/myapp.php?foo=1&bar=2", contentType }
+      )
+      assert.equal(verifySignature(request, secrets)?.status, "valid")
+    })
+  })
+
+  test("Shopify", () => {
+    const secrets = { shopify: "shpss_secret" }
+    const body = '{"id":1,"topic":"orders/create"}'
+    const headers = { "x-shopify-hmac-sha256": "7CJMkwk95NxCIZ/lDNFtYTXok569L4I5Jub461+LJGU=" }
+    assert.equal(verifySignature(signed(headers, body), secrets)?.status, "valid")
+    assert.equal(verifySignature(signed(headers, body + " "), secrets)?.status, "invalid")
+  })
+
+  describe("Discord", () => {
+    // RFC 8032 Ed25519 test vector 2: the one-byte message 0x72 ("r"), sent here as the body with an empty timestamp
+    test("verifies an Ed25519 signature over the timestamp and body", () => {
+      const secrets = { discord: "3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c" }
+      const headers = {
+        "x-signature-ed25519":
+          "92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223ebdb69da" +
+          "085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00",
+        "x-signature-timestamp": "",
+      }
+      assert.equal(verifySignature(signed(headers, "r"), secrets)?.status, "valid")
+      assert.equal(verifySignature(signed(headers, "s"), secrets)?.status, "invalid")
+    })
+
+    test("includes the timestamp in the signed message", () => {
+      const { publicKey, privateKey } = generateKeyPairSync("ed25519")
+      const hexKey = Buffer.from(publicKey.export({ format: "jwk" }).x!, "base64url").toString("hex")
+      const signature = sign(null, encode('1700000000{"type":1}'), privateKey).toString("hex")
+      const request = (timestamp: string) =>
+        signed({ "x-signature-ed25519": signature, "x-signature-timestamp": timestamp }, '{"type":1}')
+      assert.equal(verifySignature(request("1700000000"), { discord: hexKey })?.status, "valid")
+      assert.equal(verifySignature(request("1700000001"), { discord: hexKey })?.status, "invalid")
+    })
+  })
+})
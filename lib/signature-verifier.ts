@@ -0,0 +1,174 @@
+import { createHmac, createPublicKey, timingSafeEqual, verify } from "node:crypto"
+import {
+  detectSignatureProvider,
+  type SignatureProvider,
+  type SignatureVerification,
+  type SigningSecrets,
+} from "./signatures"
+
+// Providers reject deliveries whose timestamp is more than five minutes off
+const TIMESTAMP_TOLERANCE_SECONDS = 300
+
+type SignedRequest = {
+  url: string
+  headers: Record<string, string>
+  rawBody: Uint8Array
+  contentType: string
+  receivedAt: number
+}
+
+function safeEqual(a: string, b: string) {
+  const left = Buffer.from(a)
+  const right = Buffer.from(b)
+  return left.length === right.length && timingSafeEqual(left, right)
+}
+
+export function hmac(algorithm: "sha1" | "sha256", secret: string, ...data: (string | Uint8Array)[]) {
+  const mac = createHmac(algorithm, secret)
+  for (const chunk of data) mac.update(chunk)
+  return mac
+}
+
+function checkTimestamp(timestamp: string | undefined, receivedAt: number) {
+  const seconds = Number(timestamp)
+  if (!timestamp || !Number.isFinite(seconds)) return "Missing or malformed timestamp"
+  if (Math.abs(receivedAt / 1000 - seconds) > TIMESTAMP_TOLERANCE_SECONDS) {
+    return `Timestamp is outside the ${TIMESTAMP_TOLERANCE_SECONDS}s tolerance`
+  }
+  return null
+}
+
+function verifyStripe(secret: string, request: SignedRequest): Omit<SignatureVerification, "provider"> {
+  const header = request.headers["stripe-signature"]
+  const pairs = header.split(",").map((pair) => pair.trim().split("="))
+  const timestamp = pairs.find(([key]) => key === "t")?.[1]
+  const signatures = pairs.filter(([key]) => key === "v1").map(([, value]) => value)
+  if (!timestamp || signatures.length === 0) {
+    return { status: "invalid", received: header, reason: "Malformed Stripe-Signature header" }
+  }
+
+  const expected = hmac("sha256", secret, `${timestamp}.`, request.rawBody).digest("hex")
+  const received = signatures.join(",")
+  if (!signatures.some((signature) => safeEqual(signature, expected))) {
+    return { status: "invalid", expected, received, reason: "No v1 signature matches" }
+  }
+
+  const timestampError = checkTimestamp(timestamp, request.receivedAt)
+  if (timestampError) {
+    return { status: "invalid", expected, received, reason: timestampError }
+  }
+  return { status: "valid", expected, received }
+}
+
+function verifyGitHub(secret: string, request: SignedRequest): Omit<SignatureVerification, "provider"> {
+  const received = request.headers["x-hub-signature-256"]
+  const expected = `sha256=${hmac("sha256", secret, request.rawBody).digest("hex")}`
+  return safeEqual(received, expected)
+    ? { status: "valid", expected, received }
+    : { status: "invalid", expected, received, reason: "HMAC-SHA256 digest mismatch" }
+}
+
+function verifySlack(secret: string, request: SignedRequest): Omit<SignatureVerification, "provider"> {
+  const received = request.headers["x-slack-signature"]
+  const timestamp = request.headers["x-slack-request-timestamp"]
+  if (!timestamp) {
+    return { status: "invalid", received, reason: "Missing X-Slack-Request-Timestamp header" }
+  }
+  const expected = `v0=${hmac("sha256", secret, `v0:${timestamp}:`, request.rawBody).digest("hex")}`
+  if (!safeEqual(received, expected)) {
+    return { status: "invalid", expected, received, reason: "HMAC-SHA256 digest mismatch" }
+  }
+
+  const timestampError = checkTimestamp(timestamp, request.receivedAt)
+  if (timestampError) {
+    return { status: "invalid", expected, received, reason: timestampError }
+  }
+  return { status: "valid", expected, received }
+}
+
+function verifyShopify(secret: string, request: SignedRequest): Omit<SignatureVerification, "provider"> {
+  const received = request.headers["x-shopify-hmac-sha256"]
+  const expected = hmac("sha256", secret, request.rawBody).digest("base64")
+  return safeEqual(received, expected)
+    ? { status: "valid", expected, received }
+    : { status: "invalid", expected, received, reason: "HMAC-SHA256 digest mismatch" }
+}
+
+// The URL the sender called; behind a proxy the request URL has the internal host and protocol instead
+function getPublicUrl(request: SignedRequest) {
+  const url = new URL(request.url)
+  const proto = request.headers["x-forwarded-proto"]?.split(",")[0].trim()
+  const host = request.headers["x-forwarded-host"]?.split(",")[0].trim()
+  if (proto) url.protocol = `${proto}:`
+  if (host) {
+    // Setting host keeps the old port when the new one has none
+    url.port = ""
+    url.host = host
+  }
+  return url.toString()
+}
+
+// Twilio signs the full URL followed by every POST parameter sorted by name
+function verifyTwilio(secret: string, request: SignedRequest): Omit<SignatureVerification, "provider"> {
+  const received = request.headers["x-twilio-signature"]
+  let payload = getPublicUrl(request)
+  if (request.contentType.includes("application/x-www-form-urlencoded")) {
+    const params = new URLSearchParams(new TextDecoder().decode(request.rawBody))
+    const keys = Array.from(new Set(params.keys())).sort()
+    for (const key of keys) {
+      for (const value of params.getAll(key)) {
+        payload += key + value
+      }
+    }
+  }
+
+  const expected = hmac("sha1", secret, payload).digest("base64")
+  return safeEqual(received, expected)
+    ? { status: "valid", expected, received }
+    : { status: "invalid", expected, received, reason: "HMAC-SHA1 of URL and parameters mismatch" }
+}
+
+function verifyDiscord(publicKey: string, request: SignedRequest): Omit<SignatureVerification, "provider"> {
+  const received = request.headers["x-signature-ed25519"]
+  const timestamp = request.headers["x-signature-timestamp"] || ""
+
+  try {
+    const key = createPublicKey({
+      key: { kty: "OKP", crv: "Ed25519", x: Buffer.from(publicKey, "hex").toString("base64url") },
+      format: "jwk",
+    })
+    const message = Buffer.concat([Buffer.from(timestamp), request.rawBody])
+    const valid = verify(null, message, key, Buffer.from(received, "hex"))
+    return valid
+      ? { status: "valid", received }
+      : { status: "invalid", received, reason: "Ed25519 signature does not match the public key" }
+  } catch (error) {
+    return {
+      status: "invalid",
+      received,
+      reason: error instanceof Error ? error.message : "Invalid public key or signature",
+    }
+  }
+}
+
+const VERIFIERS: Record<SignatureProvider, (secret: string, request: SignedRequest) => Omit<SignatureVerification, "provider">> = {
+  stripe: verifyStripe,
+  github: verifyGitHub,
+  slack: verifySlack,
+  shopify: verifyShopify,
+  twilio: verifyTwilio,
+  discord: verifyDiscord,
+}
+
+// Verify a signed request against the endpoint's secrets; unsigned requests return null
+export function verifySignature(request: SignedRequest, secrets: SigningSecrets = {}): SignatureVerification | null {
+  const provider = detectSignatureProvider(request.headers)
+  if (!provider) return null
+
+  const secret = secrets[provider]?.trim()
+  if (!secret) {
+    return { provider, status: "unverified", reason: "No signing secret configured" }
+  }
+
+  return { provider, ...VERIFIERS[provider](secret, request) }
+}
@@ -0,0 +1,30 @@
+export type SignatureProvider = "stripe" | "github" | "slack" | "shopify" | "twilio" | "discord"
+
+export type SignatureVerification = {
+  provider: SignatureProvider
+  status: "valid" | "invalid" | "unverified"
+  expected?: string
+  received?: string
+  reason?: string
+}
+
+export type SigningSecrets = Partial<Record<SignatureProvider, string>>
+
+export const SIGNATURE_PROVIDERS: { id: SignatureProvider; label: string; secretLabel: string }[] = [
+  { id: "stripe", label: "Stripe", secretLabel: "Endpoint signing secret (whsec_...)" },
+  { id: "github", label: "GitHub", secretLabel: "Webhook secret" },
+  { id: "slack", label: "Slack", secretLabel: "Signing secret" },
+  { id: "shopify", label: "Shopify", secretLabel: "App client secret" },
+  { id: "twilio", label: "Twilio", secretLabel: "Auth token" },
+  { id: "discord", label: "Discord", secretLabel: "Application public key (hex)" },
+]
+
+export function detectSignatureProvider(headers: Record<string, string>): SignatureProvider | null {
+  if (headers["stripe-signature"]) return "stripe"
+  if (headers["x-hub-signature-256"]) return "github"
+  if (headers["x-slack-signature"]) return "slack"
+  if (headers["x-shopify-hmac-sha256"]) return "shopify"
+  if (headers["x-twilio-signature"]) return "twilio"
+  if (headers["x-signature-ed25519"]) return "discord"
+  return null
+}
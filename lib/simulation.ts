@@ -0,0 +1,85 @@
+export type ResponseSimulation = {
+  delayMode: "none" | "fixed" | "random"
+  // Fixed delay, or the lower bound of the random range
+  delayMs: number
+  delayMaxMs: number
+  // Fail this many requests in a row before responding normally
+  failFirstCount: number
+  // Percentage (0-100) of the remaining requests that fail at random
+  failureRate: number
+  failureStatus: number
+  // Never respond; hold the connection until the sender gives up
+  hang: boolean
+}
+
+export type InjectedFault = "failure" | "timeout"
+
+export const DEFAULT_SIMULATION: ResponseSimulation = {
+  delayMode: "none",
+  delayMs: 0,
+  delayMaxMs: 0,
+  failFirstCount: 0,
+  failureRate: 0,
+  failureStatus: 500,
+  hang: false,
+}
+
+// Serverless functions are cut off at five minutes at most (the webhook route's maxDuration), so no
+// stored delay is longer than that; the route further shortens holds to what is left of its budget
+export const MAX_HANG_MS = 300_000
+// Left over after a hold for the response to go out before the function is stopped
+const HOLD_MARGIN_MS = 2_000
+
+function clampDelay(ms: number) {
+  return Math.min(MAX_HANG_MS, Math.max(0, Math.floor(ms) || 0))
+}
+
+// Bring stored delays within what one request may be held for
+export function normalizeSimulation(simulation: ResponseSimulation): ResponseSimulation {
+  return { ...simulation, delayMs: clampDelay(simulation.delayMs), delayMaxMs: clampDelay(simulation.delayMaxMs) }
+}
+
+export function getSimulatedDelay(simulation: ResponseSimulation) {
+  switch (simulation.delayMode) {
+    case "fixed":
+      return clampDelay(simulation.delayMs)
+    case "random": {
+      const min = clampDelay(Math.min(simulation.delayMs, simulation.delayMaxMs))
+      const max = clampDelay(Math.max(simulation.delayMs, simulation.delayMaxMs))
+      return Math.round(min + Math.random() * (max - min))
+    }
+    default:
+      return 0
+  }
+}
+
+// How long a request that started at startedAt may still be held within a budget of budgetMs
+export function getHoldMs(requestedMs: number, startedAt: number, budgetMs: number, now = Date.now()) {
+  return Math.max(0, Math.min(requestedMs, budgetMs - (now - startedAt) - HOLD_MARGIN_MS))
+}
+
+// attempt is the 1-based count of requests since the settings were last saved
+export function shouldInjectFailure(simulation: ResponseSimulation, attempt: number) {
+  if (attempt <= simulation.failFirstCount) return true
+  return simulation.failureRate > 0 && Math.random() * 100 < simulation.failureRate
+}
+
+export function isSimulationActive(simulation: ResponseSimulation | undefined): simulation is ResponseSimulation {
+  return Boolean(
+    simulation &&
+      (simulation.hang ||
+        simulation.delayMode !== "none" ||
+        simulation.failFirstCount > 0 ||
+        simulation.failureRate > 0)
+  )
+}
+
+export function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer)
+      resolve()
+    })
+  })
+}
@@ -0,0 +1,238 @@
+import { type WebhookEvent } from "@/app/actions/webhook"
+import { serializeBody, stripHopByHopHeaders } from "./forward"
+
+export type SnippetLanguage = "curl" | "httpie" | "fetch" | "undici" | "python" | "go" | "powershell"
+
+// editorLanguage is the Monaco language used to highlight the snippet
+export const SNIPPET_LANGUAGES: { id: SnippetLanguage; label: string; editorLanguage: string }[] = [
+  { id: "curl", label: "cURL", editorLanguage: "shell" },
+  { id: "httpie", label: "HTTPie", editorLanguage: "shell" },
+  { id: "fetch", label: "JavaScript fetch", editorLanguage: "javascript" },
+  { id: "undici", label: "Node.js undici", editorLanguage: "javascript" },
+  { id: "python", label: "Python requests", editorLanguage: "python" },
+  { id: "go", label: "Go net/http", editorLanguage: "go" },
+  { id: "powershell", label: "PowerShell", editorLanguage: "powershell" },
+]
+
+type SnippetRequest = {
+  method: string
+  url: string
+  headers: [string, string][]
+  // Text is sent as-is; base64 marks bytes that are not valid UTF-8
+  body: { data: string; encoding: "utf8" | "base64" } | null
+}
+
+function toSnippetRequest(event: WebhookEvent): SnippetRequest {
+  const headers = stripHopByHopHeaders(
+    Object.fromEntries(Object.entries(event.headers).map(([key, value]) => [key, String(value)]))
+  )
+  const contentType = Object.entries(headers).find(([key]) => key.toLowerCase() === "content-type")?.[1] ?? ""
+  const canHaveBody = event.method !== "GET" && event.method !== "HEAD"
+
+  let body: SnippetRequest["body"] = null
+  if (canHaveBody && event.rawBody) {
+    body = { data: event.rawBody, encoding: event.bodyEncoding ?? "utf8" }
+  } else if (canHaveBody) {
+    const serialized = serializeBody(event.body, contentType)
+    body = serialized ? { data: serialized, encoding: "utf8" } : null
+  }
+
+  return { method: event.method, url: event.url, headers: Object.entries(headers), body }
+}
+
+// POSIX shells: nothing is special inside single quotes except the quote itself
+function shellQuote(value: string) {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+// JSON string literals are also valid in JavaScript, Python and Go
+function quote(value: string) {
+  return JSON.stringify(value)
+}
+
+// PowerShell treats typographic single quotes as quotes too, so double all of them
+function powershellQuote(value: string) {
+  return `'${value.replace(/['‘’‚‛]/g, "$&$&")}'`
+}
+
+function curl({ method, url, headers, body }: SnippetRequest) {
+  const lines = [method === "HEAD" ? `curl --head ${shellQuote(url)}` : `curl -X ${method} ${shellQuote(url)}`]
+  for (const [name, value] of headers) {
+    lines.push(`-H ${shellQuote(`${name}: ${value}`)}`)
+  }
+  if (body?.encoding === "utf8") {
+    lines.push(`--data-raw ${shellQuote(body.data)}`)
+  } else if (body) {
+    lines.push("--data-binary @-")
+  }
+
+  const command = lines.join(" \\\n  ")
+  return body?.encoding === "base64"
+    ? `printf %s ${shellQuote(body.data)} | base64 --decode | ${command}`
+    : command
+}
+
+function httpie({ method, url, headers, body }: SnippetRequest) {
+  const args = [`http`]
+  if (body?.encoding === "utf8") {
+    args.push(`--raw ${shellQuote(body.data)}`)
+  }
+  args.push(method, shellQuote(url))
+  // "Name;" sends a header with an empty value
+  const lines = [args.join(" "), ...headers.map(([name, value]) => shellQuote(value ? `${name}:${value}` : `${name};`))]
+
+  const command = lines.join(" \\\n  ")
+  return body?.encoding === "base64"
+    ? `printf %s ${shellQuote(body.data)} | base64 --decode | ${command}`
+    : command
+}
+
+function jsHeaders(headers: [string, string][]) {
+  if (headers.length === 0) return "{}"
+  return `{\n${headers.map(([name, value]) => `    ${quote(name)}: ${quote(value)},`).join("\n")}\n  }`
+}
+
+function fetchSnippet({ method, url, headers, body }: SnippetRequest) {
+  const bodyLine = body?.encoding === "base64"
+    ? `\n  body: Uint8Array.from(atob(${quote(body.data)}), (c) => c.charCodeAt(0)),`
+    : body
+      ? `\n  body: ${quote(body.data)},`
+      : ""
+
+  return `const response = await fetch(${quote(url)}, {
+  method: ${quote(method)},
+  headers: ${jsHeaders(headers)},${bodyLine}
+})
+
+console.log(response.status, await response.text())`
+}
+
+function undici({ method, url, headers, body }: SnippetRequest) {
+  const bodyLine = body?.encoding === "base64"
+    ? `\n  body: Buffer.from(${quote(body.data)}, "base64"),`
+    : body
+      ? `\n  body: ${quote(body.data)},`
+      : ""
+
+  return `import { request } from "undici"
+
+const { statusCode, body } = await request(${quote(url)}, {
+  method: ${quote(method)},
+  headers: ${jsHeaders(headers)},${bodyLine}
+})
+
+console.log(statusCode, await body.text())`
+}
+
+function python({ method, url, headers, body }: SnippetRequest) {
+  const imports = body?.encoding === "base64" ? "import base64\n\nimport requests" : "import requests"
+  const headerLines = headers.map(([name, value]) => `        ${quote(name)}: ${quote(value)},`).join("\n")
+  // Encode text explicitly; requests would otherwise send str bodies as Latin-1
+  const bodyLine = body?.encoding === "base64"
+    ? `\n    data=base64.b64decode(${quote(body.data)}),`
+    : body
+      ? `\n    data=${quote(body.data)}.encode("utf-8"),`
+      : ""
+
+  return `${imports}
+
+response = requests.request(
+    ${quote(method)},
+    ${quote(url)},
+    headers={${headerLines ? `\n${headerLines}\n    ` : ""}},${bodyLine}
+)
+
+print(response.status_code, response.text)`
+}
+
+function go({ method, url, headers, body }: SnippetRequest) {
+  const imports = ["fmt", "io", "net/http"]
+  let bodySetup = ""
+  let bodyArg = "nil"
+  if (body?.encoding === "base64") {
+    imports.push("bytes", "encoding/base64")
+    bodySetup = `\tdata, err := base64.StdEncoding.DecodeString(${quote(body.data)})
+\tif err != nil {
+\t\tpanic(err)
+\t}
+`
+    bodyArg = "bytes.NewReader(data)"
+  } else if (body) {
+    imports.push("strings")
+    bodyArg = `strings.NewReader(${quote(body.data)})`
+  }
+
+  // Assigning the map directly keeps header names exactly as captured
+  const headerLines = headers
+    .map(([name, value]) => `\treq.Header[${quote(name)}] = []string{${quote(value)}}`)
+    .join("\n")
+
+  return `package main
+
+import (
+${imports.sort().map((name) => `\t"${name}"`).join("\n")}
+)
+
+func main() {
+${bodySetup}\treq, err := http.NewRequest(${quote(method)}, ${quote(url)}, ${bodyArg})
+\tif err != nil {
+\t\tpanic(err)
+\t}
+${headerLines ? `${headerLines}\n` : ""}
+\tres, err := http.DefaultClient.Do(req)
+\tif err != nil {
+\t\tpanic(err)
+\t}
+\tdefer res.Body.Close()
+
+\tout, _ := io.ReadAll(res.Body)
+\tfmt.Println(res.Status, string(out))
+}`
+}
+
+function powershell({ method, url, headers, body }: SnippetRequest) {
+  // Windows PowerShell rejects these in -Headers and wants their dedicated parameters
+  const contentType = headers.find(([name]) => name.toLowerCase() === "content-type")?.[1]
+  const userAgent = headers.find(([name]) => name.toLowerCase() === "user-agent")?.[1]
+  const rest = headers.filter(([name]) => !["content-type", "user-agent"].includes(name.toLowerCase()))
+
+  const lines = [
+    `$headers = @{${rest.length ? "\n" + rest.map(([name, value]) => `  ${powershellQuote(name)} = ${powershellQuote(value)}`).join("\n") + "\n" : ""}}`,
+  ]
+  if (body?.encoding === "base64") {
+    lines.push(`$body = [Convert]::FromBase64String(${powershellQuote(body.data)})`)
+  } else if (body) {
+    lines.push(`$body = ${powershellQuote(body.data)}`)
+  }
+
+  const params = [
+    `-Uri ${powershellQuote(url)}`,
+    `-Method ${method}`,
+    "-Headers $headers",
+    ...(contentType ? [`-ContentType ${powershellQuote(contentType)}`] : []),
+    ...(userAgent ? [`-UserAgent ${powershellQuote(userAgent)}`] : []),
+    ...(body ? ["-Body $body"] : []),
+  ]
+  lines.push("", `$response = Invoke-WebRequest ${params.join(" `\n  ")}`, "", "$response.StatusCode", "$response.Content")
+  return lines.join("\n")
+}
+
+export function generateSnippet(event: WebhookEvent, language: SnippetLanguage) {
+  const request = toSnippetRequest(event)
+  switch (language) {
+    case "curl":
+      return curl(request)
+    case "httpie":
+      return httpie(request)
+    case "fetch":
+      return fetchSnippet(request)
+    case "undici":
+      return undici(request)
+    case "python":
+      return python(request)
+    case "go":
+      return go(request)
+    case "powershell":
+      return powershell(request)
+  }
+}
@@ -0,0 +1,123 @@
+import { v4 as uuidv4 } from "uuid"
+
+export type TemplateContext = {
+  method: string
+  path: string
+  body: unknown
+  rawBody: string | null
+  query: Record<string, string>
+  headers: Record<string, string>
+}
+
+export const TEMPLATE_VARIABLES = [
+  { name: "body.challenge", description: "Field from the parsed request body" },
+  { name: "query.hub.challenge", description: "Query parameter (dots in names are fine)" },
+  { name: "headers.x-request-id", description: "Request header (case-insensitive)" },
+  { name: "method", description: "Request method" },
+  { name: "path", description: "Path after the endpoint id, e.g. /orders" },
+  { name: "rawBody", description: "Request body as received" },
+  { name: "uuid", description: "Random UUID v4" },
+  { name: "timestamp", description: "Milliseconds since epoch" },
+  { name: "unix", description: "Seconds since epoch" },
+  { name: "now", description: "ISO 8601 date" },
+]
+
+export const TEMPLATE_FILTERS = ["json", "upper", "lower", "base64", "urlencode"] as const
+
+const TAG_PATTERN = /\{\{\s*([^{}|]+?)\s*((?:\|\s*[a-z0-9]+\s*)*)\}\}/gi
+
+// Walk a dotted path, preferring the longest key that exists so "hub.challenge" resolves as one name
+function resolvePath(value: unknown, segments: string[], caseInsensitive = false): unknown {
+  if (segments.length === 0) return value
+  if (!value || typeof value !== "object") return undefined
+
+  const record = value as Record<string, unknown>
+  for (let length = segments.length; length > 0; length--) {
+    let key = segments.slice(0, length).join(".")
+    if (caseInsensitive) key = key.toLowerCase()
+    if (key in record) {
+      return resolvePath(record[key], segments.slice(length))
+    }
+  }
+  return undefined
+}
+
+function resolveVariable(name: string, context: TemplateContext): unknown {
+  const [root, ...rest] = name.split(".")
+  switch (root) {
+    case "body":
+      return resolvePath(context.body, rest)
+    case "query":
+      return resolvePath(context.query, rest)
+    case "headers":
+      return resolvePath(context.headers, rest, true)
+    case "method":
+      return context.method
+    case "path":
+      return context.path
+    case "rawBody":
+      return context.rawBody
+    case "uuid":
+      return uuidv4()
+    case "timestamp":
+      return Date.now()
+    case "unix":
+      return Math.floor(Date.now() / 1000)
+    case "now":
+      return new Date().toISOString()
+    default:
+      return undefined
+  }
+}
+
+function stringify(value: unknown) {
+  if (value === undefined || value === null) return ""
+  return typeof value === "object" ? JSON.stringify(value) : String(value)
+}
+
+function applyFilter(value: unknown, filter: string): unknown {
+  switch (filter) {
+    case "json":
+      // Produces a JSON literal, so "{{body.text | json}}" is safe to drop into a JSON body unquoted
+      return JSON.stringify(value ?? null)
+    case "upper":
+      return stringify(value).toUpperCase()
+    case "lower":
+      return stringify(value).toLowerCase()
+    case "base64":
+      return Buffer.from(stringify(value)).toString("base64")
+    case "urlencode":
+      return encodeURIComponent(stringify(value))
+    default:
+      return value
+  }
+}
+
+export function renderTemplate(template: string, context: TemplateContext) {
+  return template.replace(TAG_PATTERN, (_, name: string, filters: string) => {
+    let value = resolveVariable(name.trim(), context)
+    for (const filter of filters.split("|").map((f) => f.trim().toLowerCase()).filter(Boolean)) {
+      value = applyFilter(value, filter)
+    }
+    return stringify(value)
+  })
+}
+
+// Header names are HTTP tokens and values must be Latin-1 without CR, LF or NUL; Headers throws on anything else
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9a-z-]+$/i
+const INVALID_HEADER_VALUE_PATTERN = /[\r\n\0]|[^\u0000-\u00ff]/
+
+// Render each header value, leaving out headers a rendered request value has made invalid
+export function renderHeaders(headers: Record<string, string>, context: TemplateContext) {
+  const rendered: Record<string, string> = {}
+  const dropped: string[] = []
+  for (const [name, template] of Object.entries(headers)) {
+    const value = renderTemplate(template, context)
+    if (HEADER_NAME_PATTERN.test(name) && !INVALID_HEADER_VALUE_PATTERN.test(value)) {
+      rendered[name] = value
+    } else {
+      dropped.push(name)
+    }
+  }
+  return { headers: rendered, dropped }
+}
@@ -0,0 +1,87 @@
+import { describe, test } from "node:test"
+import assert from "node:assert/strict"
+import { createServer, type RequestListener } from "node:http"
+import { type AddressInfo } from "node:net"
+import { gzipSync } from "node:zlib"
+import { decodeRawBody } from "./body"
+import { MAX_FORWARD_BODY_BYTES } from "./forward"
+import { forwardWebhook } from "./upstream"
+
+const request = { method: "GET", headers: {}, query: {}, rawBody: null }
+
+async function withServer(listener: RequestListener, run: (origin: string) => Promise<void>) {
+  const server = createServer(listener)
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+  try {
+    await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}`)
+  } finally {
+    server.close()
+  }
+}
+
+describe("forwardWebhook", () => {
+  test("rejects loopback, private, link-local and metadata addresses", async () => {
+    for (const url of [
+      "http://127.0.0.1/",
+      "http://10.0.0.5:8080/",
+      "http://192.168.1.1/",
+      "http://169.254.169.254/latest/meta-data/",
+      "http://0.0.0.0/",
+      "http://[::1]/",
+      "http://[::ffff:127.0.0.1]/",
+      "http://[fd00::1]/",
+      "http://[fe80::1]/",
+    ]) {
+      const result = await forwardWebhook(url, request)
+      assert.equal(result.status, null)
+      assert.match(result.error ?? "", /not a public address/, url)
+    }
+  })
+
+  test("checks the addresses a name resolves to when connecting", async () => {
+    await withServer(
+      (_, response) => response.end("reached"),
+      async (origin) => {
+        const result = await forwardWebhook(origin.replace("127.0.0.1", "localhost"), request)
+        assert.equal(result.status, null)
+        assert.match(result.error ?? "", /localhost resolves to .*not a public address/)
+      }
+    )
+  })
+
+  test("keeps a binary response body byte for byte", async () => {
+    const bytes = Uint8Array.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe])
+    await withServer(
+      (_, response) => response.end(bytes),
+      async (origin) => {
+        const result = await forwardWebhook(origin, request, { allowPrivate: true })
+        assert.equal(result.bodyEncoding, "base64")
+        assert.deepEqual(decodeRawBody(result.body!, "base64"), bytes)
+      }
+    )
+  })
+
+  test("decodes a compressed response", async () => {
+    await withServer(
+      (_, response) => {
+        response.setHeader("content-encoding", "gzip")
+        response.end(gzipSync('{"ok":true}'))
+      },
+      async (origin) => {
+        const result = await forwardWebhook(origin, request, { allowPrivate: true })
+        assert.equal(result.body, '{"ok":true}')
+      }
+    )
+  })
+
+  test("stops reading at the size limit and marks the body truncated", async () => {
+    await withServer(
+      (_, response) => response.end(Buffer.alloc(MAX_FORWARD_BODY_BYTES + 1000, "a")),
+      async (origin) => {
+        const result = await forwardWebhook(origin, request, { allowPrivate: true })
+        assert.equal(result.bodyTruncated, true)
+        assert.equal(result.body?.length, MAX_FORWARD_BODY_BYTES)
+      }
+    )
+  })
+})
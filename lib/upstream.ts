@@ -0,0 +1,190 @@
+import { lookup } from "node:dns"
+import { request as httpRequest, type IncomingMessage } from "node:http"
+import { request as httpsRequest } from "node:https"
+import { BlockList, isIP, type LookupFunction } from "node:net"
+import { createBrotliDecompress, createGunzip, createInflate } from "node:zlib"
+import { encodeRawBody } from "./body"
+import {
+  MAX_FORWARD_BODY_BYTES,
+  buildForwardUrl,
+  stripHopByHopHeaders,
+  type ForwardRequest,
+  type ForwardResult,
+} from "./forward"
+
+// Server-only: requests to user-supplied URLs. Kept apart from ./forward, which the client imports too.
+
+const FORWARD_TIMEOUT_MS = 10_000
+
+// Loopback, private, link-local (incl. cloud metadata at 169.254.169.254), shared and reserved ranges.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 rules.
+const BLOCKED_NETWORKS = new BlockList()
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_NETWORKS.addSubnet(network, prefix, "ipv4")
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  // NAT64 and 6to4 embed an IPv4 address that may be private
+  ["64:ff9b::", 96],
+  ["2002::", 16],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_NETWORKS.addSubnet(network, prefix, "ipv6")
+}
+
+// Running locally, forwarding to a dev server on localhost is the point
+const allowPrivateTargets = () =>
+  process.env.NODE_ENV === "development" || process.env.ALLOW_PRIVATE_NETWORK_TARGETS === "true"
+
+function isBlockedAddress(address: string, family: number) {
+  return BLOCKED_NETWORKS.check(address, family === 6 ? "ipv6" : "ipv4")
+}
+
+// dns.lookup that fails when the name resolves to any non-public address. The socket connects to the
+// address returned here, so a name cannot pass the check and then resolve somewhere private for the request.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "", 0)
+    const blocked = addresses.find(({ address, family }) => isBlockedAddress(address, family))
+    if (blocked) {
+      return callback(new Error(`${hostname} resolves to ${blocked.address}, which is not a public address`), "", 0)
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+type OutgoingRequest = {
+  method: string
+  headers: Record<string, string>
+  body: ForwardRequest["rawBody"]
+  lookup?: LookupFunction
+}
+
+function sendRequest(url: URL, init: OutgoingRequest) {
+  return new Promise<IncomingMessage>((resolve, reject) => {
+    const send = url.protocol === "https:" ? httpsRequest : httpRequest
+    // Redirects are handed back rather than followed, so a Location inside the network is never requested
+    const options = {
+      method: init.method,
+      headers: init.headers,
+      lookup: init.lookup,
+      signal: AbortSignal.timeout(FORWARD_TIMEOUT_MS),
+    }
+    const outgoing = send(url, options, resolve)
+    outgoing.on("error", reject)
+    outgoing.end(init.body ?? undefined)
+  })
+}
+
+// Undo the content-encoding like fetch() would, reading at most MAX_FORWARD_BODY_BYTES of the decoded body
+async function readBody(response: IncomingMessage) {
+  const encoding = response.headers["content-encoding"]?.trim().toLowerCase()
+  const decoder =
+    encoding === "gzip" || encoding === "x-gzip"
+      ? createGunzip()
+      : encoding === "deflate"
+        ? createInflate()
+        : encoding === "br"
+          ? createBrotliDecompress()
+          : null
+  if (decoder) {
+    response.on("error", (error) => decoder.destroy(error))
+  }
+
+  const chunks: Buffer[] = []
+  let size = 0
+  let truncated = false
+  for await (const chunk of decoder ? response.pipe(decoder) : response) {
+    const room = MAX_FORWARD_BODY_BYTES - size
+    if (chunk.length > room) {
+      chunks.push(chunk.subarray(0, room))
+      truncated = true
+      break
+    }
+    chunks.push(chunk)
+    size += chunk.length
+  }
+  response.destroy()
+  return { bytes: new Uint8Array(Buffer.concat(chunks)), truncated }
+}
+
+// Pass `allowPrivate` only where the caller owns the network, e.g. the CLI relaying to localhost
+export async function forwardWebhook(
+  target: string,
+  request: ForwardRequest,
+  { allowPrivate = false } = {}
+): Promise<ForwardResult> {
+  const startedAt = Date.now()
+  let url = target
+
+  try {
+    url = buildForwardUrl(target, request.query)
+    const parsed = new URL(url)
+    if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+      throw new Error("Only http and https URLs can be requested")
+    }
+
+    const checkAddresses = !allowPrivate && !allowPrivateTargets()
+    // IP literals are connected to without a lookup, so check them here
+    const host = parsed.hostname.replace(/^\[|\]$/g, "")
+    if (checkAddresses && isIP(host) && isBlockedAddress(host, isIP(host))) {
+      throw new Error(`${parsed.hostname} is not a public address`)
+    }
+
+    const hasBody = request.method !== "GET" && request.method !== "HEAD"
+    const response = await sendRequest(parsed, {
+      method: request.method,
+      headers: stripHopByHopHeaders(request.headers),
+      body: hasBody ? request.rawBody : null,
+      lookup: checkAddresses ? publicLookup : undefined,
+    })
+
+    const responseHeaders: Record<string, string> = {}
+    for (const [key, value] of Object.entries(response.headers)) {
+      if (value !== undefined) {
+        responseHeaders[key] = Array.isArray(value) ? value.join(", ") : value
+      }
+    }
+
+    // Keep the exact bytes so a binary response can be passed back to the sender unchanged
+    const { bytes, truncated } = await readBody(response)
+    const body = bytes.length > 0 ? encodeRawBody(bytes) : null
+
+    return {
+      url,
+      status: response.statusCode ?? null,
+      statusText: response.statusMessage ?? "",
+      headers: responseHeaders,
+      body: body?.data ?? null,
+      ...(body?.encoding === "base64" && { bodyEncoding: body.encoding }),
+      ...(truncated && { bodyTruncated: true }),
+      duration: Date.now() - startedAt,
+    }
+  } catch (error) {
+    return {
+      url,
+      status: null,
+      statusText: "",
+      headers: {},
+      body: null,
+      duration: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : "Forward request failed",
+    }
+  }
+}
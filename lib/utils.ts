@@ -4,3 +4,11 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function getStatusColor(status: number | null) {
+  if (status === null) return "bg-gray-500"
+  if (status >= 500) return "bg-red-500"
+  if (status >= 400) return "bg-yellow-500"
+  if (status >= 300) return "bg-blue-500"
+  return "bg-green-500"
+}